@@ -2,8 +2,86 @@ import React, { useState, useRef, useEffect } from 'react';
 import { Icons } from './components/Icons';
 import { Button } from './components/Button';
 import { ResultCard } from './components/ResultCard';
-import { analyzeImage } from './services/geminiService';
-import { AnalysisState, WasteCategory } from './types';
+import { HistoryView } from './components/HistoryView';
+import { ImpactDashboard } from './components/ImpactDashboard';
+import { GroupView } from './components/GroupView';
+import { BatchView } from './components/BatchView';
+import { LiveScanOverlay } from './components/LiveScanOverlay';
+import { BarcodeScanner } from './components/BarcodeScanner';
+import { AccessibilityMenu } from './components/AccessibilityMenu';
+import { getClassifier } from './services/classifierService';
+import { withResultCache } from './services/resultCache';
+import { ClassifierError, ClassifierErrorCode, NetworkError } from './services/classifierErrors';
+import { appConfig } from './services/config';
+import { captureFrame } from './services/liveScan';
+import { applyAccessibilityPrefs, describeResult, loadAccessibilityPrefs, saveAccessibilityPrefs, speak, stopSpeaking } from './services/accessibilityService';
+import { saveScan } from './services/historyService';
+import { lookupProduct, productToResult } from './services/productService';
+import { MAX_DESCRIPTION_LENGTH } from './services/validation';
+import { syncInBackground } from './services/groupService';
+import { defaultHazardDetails } from './services/hazardService';
+import { enqueueScan, flushOutbox, listOutbox } from './services/outboxService';
+import { clearAppBadge, isOffline, notifyResultsReady, requestNotificationPermission } from './services/pwaService';
+import { readFileAsDataUrl } from './services/imageUtils';
+import { getReticleCrop, preprocessImage } from './services/preprocessService';
+import { LOCALES, MessageKey, createTranslator, getLocale, loadSelectedLocale, saveSelectedLocale } from './services/i18n';
+import { REGION_PACKS, getRegionPack, loadSelectedRegionId, saveSelectedRegionId } from './services/regionService';
+import { AccessibilityPrefs, AnalysisResult, AnalysisState, PartialAnalysis, BatchItem, BoundingBox, Clarification, ScanHistoryEntry, WasteCategory } from './types';
+
+// Matches the camera reticle (w-64 h-64)
+const RETICLE_SIZE_PX = 256;
+
+// Placeholders in `hero.subtitle` rendered as coloured category names
+const HERO_HIGHLIGHTS: Record<string, { key: MessageKey; className: string }> = {
+  recycle: { key: 'category.RECYCLE', className: 'text-emerald-600' },
+  compost: { key: 'category.COMPOST', className: 'text-amber-500' },
+  hazard: { key: 'category.HAZARD', className: 'text-rose-600' },
+  trash: { key: 'category.TRASH', className: 'text-slate-500' },
+};
+
+// Similar photos reuse a cached result instead of calling the classifier again
+const classifier = withResultCache(getClassifier());
+
+// Actionable copy per failure; the technical detail is logged by the classifier
+const ERROR_MESSAGES: Record<ClassifierErrorCode, MessageKey> = {
+  apiKey: 'error.apiKey',
+  rateLimit: 'error.rateLimit',
+  timeout: 'error.timeout',
+  safety: 'error.safety',
+  emptyResponse: 'error.emptyResponse',
+  malformedResponse: 'error.malformedResponse',
+  network: 'error.network',
+  service: 'error.service',
+  cancelled: 'error.generic',
+  unknown: 'error.generic',
+  invalidRequest: 'error.invalidRequest',
+  payloadTooLarge: 'error.invalidRequest',
+  unauthorized: 'error.unauthorized',
+  quotaExceeded: 'error.quotaExceeded',
+  notFound: 'error.service',
+};
+
+// Fills the fields that haven't streamed in yet so ResultCard can render early.
+// Hazard details aren't streamed, so a HAZARD result shows the default precautions until the full result lands.
+const toStreamingResult = (partial: PartialAnalysis, regionId: string): AnalysisResult => ({
+  category: partial.category as WasteCategory,
+  itemName: partial.itemName || '',
+  confidence: partial.confidence ?? 0,
+  reasoning: partial.reasoning || '',
+  disposalAction: partial.disposalAction || '',
+  sustainabilityTip: partial.sustainabilityTip || '',
+  binId: partial.binId,
+  regionId,
+  ...(partial.category === WasteCategory.HAZARD && { hazardDetails: defaultHazardDetails() }),
+});
+
+// Full-page views opened from the navbar
+type Panel = 'history' | 'impact' | 'group';
+
+// The main-area states keyboard focus follows
+type View = 'upload' | 'camera' | 'loading' | 'result' | 'error';
+
+const isImageFile = (file: File) => file.type.startsWith('image/') || /\.(heic|heif)$/i.test(file.name);
 
 const App: React.FC = () => {
   const [state, setState] = useState<AnalysisState>({
@@ -17,10 +95,40 @@ const App: React.FC = () => {
   const [isTorchOn, setIsTorchOn] = useState(false);
   const [facingMode, setFacingMode] = useState<'environment' | 'user'>('environment');
   const [hasTorch, setHasTorch] = useState(false);
+  const [isCropToReticle, setIsCropToReticle] = useState(false);
+  const [isLiveMode, setIsLiveMode] = useState(false);
+  const [isMultiItem, setIsMultiItem] = useState(false);
+  const [openPanel, setOpenPanel] = useState<Panel | null>(null);
+  const [batchFiles, setBatchFiles] = useState<{ fileName: string; imagePreview: string }[] | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [searchText, setSearchText] = useState('');
+  const [isBarcodeOpen, setIsBarcodeOpen] = useState(false);
+  const [a11yPrefs, setA11yPrefs] = useState(loadAccessibilityPrefs);
+  const [isA11yMenuOpen, setIsA11yMenuOpen] = useState(false);
+  const [announcement, setAnnouncement] = useState<{ text: string; urgent: boolean } | null>(null);
+  const [regionId, setRegionId] = useState(loadSelectedRegionId);
+  const [locale, setLocale] = useState(loadSelectedLocale);
+  const [isQueued, setIsQueued] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [unseenCount, setUnseenCount] = useState(0);
+  // Queued scans that failed for good and were dropped from the outbox
+  const [outboxFailure, setOutboxFailure] = useState<{ count: number; message: MessageKey } | null>(null);
+  const unseenCountRef = useRef(0);
+  const t = createTranslator(locale);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadHeadingRef = useRef<HTMLHeadingElement>(null);
+  const captureButtonRef = useRef<HTMLButtonElement>(null);
+  const loadingHeadingRef = useRef<HTMLHeadingElement>(null);
+  const errorHeadingRef = useRef<HTMLHeadingElement>(null);
+  const previousViewRef = useRef<View | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const analysisControllerRef = useRef<AbortController | null>(null);
+  // Kept so a failed analysis can be retried with the same follow-up answers
+  const lastClarificationsRef = useRef<Clarification[] | undefined>(undefined);
+  // Set while the current analysis came from a typed description rather than a photo
+  const lastDescriptionRef = useRef<string | null>(null);
 
   // Cleanup stream on unmount
   useEffect(() => {
@@ -29,6 +137,74 @@ const App: React.FC = () => {
     };
   }, []);
 
+  useEffect(() => {
+    applyAccessibilityPrefs(a11yPrefs);
+  }, [a11yPrefs]);
+
+  // Announce each finished result; hazards interrupt whatever is being read.
+  useEffect(() => {
+    if (!state.result) return;
+    const text = describeResult(state.result, t);
+    setAnnouncement({ text, urgent: state.result.category === WasteCategory.HAZARD });
+    if (a11yPrefs.speakResults) speak(text, locale);
+  }, [state.result]);
+
+  // Escape leaves the camera, like the close button
+  useEffect(() => {
+    if (!isCameraOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') handleCloseCamera();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isCameraOpen]);
+
+  // Urdu and Arabic flip the whole layout via the document direction
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = getLocale(locale).dir;
+  }, [locale]);
+
+  // Classify scans queued while offline on load and whenever the connection returns
+  useEffect(() => {
+    const flushQueuedScans = async () => {
+      if (isOffline()) return;
+      let failed = 0;
+      const classified = await flushOutbox(
+        (image, options) => classifier.classify(image, options),
+        async (result, entry) => {
+          await saveScan(result, entry.image);
+          setPendingCount(count => Math.max(0, count - 1));
+        },
+        (error) => {
+          console.error("Queued scan failed:", error);
+          failed++;
+          setPendingCount(count => Math.max(0, count - 1));
+          const message = error instanceof ClassifierError ? ERROR_MESSAGES[error.code] : 'error.generic';
+          setOutboxFailure(previous => ({ count: (previous?.count || 0) + 1, message }));
+        }
+      );
+      // Also catches group shares that failed while offline
+      syncInBackground();
+      if (classified > 0) {
+        unseenCountRef.current += classified;
+        setUnseenCount(unseenCountRef.current);
+        notifyResultsReady(t('outbox.readyTitle'), t('outbox.readyBody', { count: classified }), unseenCountRef.current);
+      }
+      if (failed > 0) {
+        notifyResultsReady(t('outbox.failedTitle'), t('outbox.failedBody', { count: failed }), unseenCountRef.current);
+      }
+    };
+
+    listOutbox()
+      .then(entries => setPendingCount(entries.length))
+      .then(flushQueuedScans)
+      .catch(err => console.error("Outbox load error:", err));
+
+    window.addEventListener('online', flushQueuedScans);
+    return () => window.removeEventListener('online', flushQueuedScans);
+  }, [locale]);
+
   // Critical fix: Attach stream to video element when the camera view opens (mounts)
   useEffect(() => {
     if (isCameraOpen && videoRef.current && streamRef.current) {
@@ -53,7 +229,7 @@ const App: React.FC = () => {
     if (!window.isSecureContext) {
       setState(prev => ({ 
         ...prev, 
-        error: "Security Restriction: Camera access requires HTTPS. If you are running a local server and accessing it from another device, please use a secure connection (HTTPS) or localhost." 
+        error: t('error.insecureContext')
       }));
       return;
     }
@@ -125,7 +301,7 @@ const App: React.FC = () => {
       console.error("Camera error:", err);
       setState(prev => ({ 
         ...prev, 
-        error: "Unable to access camera. Please ensure permissions are granted and a camera is available." 
+        error: t('error.cameraUnavailable')
       }));
       // Close UI if we failed completely
       setIsCameraOpen(false);
@@ -135,6 +311,7 @@ const App: React.FC = () => {
   const handleCloseCamera = () => {
     stopTracks();
     setIsCameraOpen(false);
+    setIsLiveMode(false);
   };
 
   const toggleTorch = async () => {
@@ -160,75 +337,354 @@ const App: React.FC = () => {
   const capturePhoto = () => {
     if (videoRef.current) {
       const video = videoRef.current;
-      const canvas = document.createElement('canvas');
-      
-      // Set canvas dimensions to match video stream
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        // Note: We do NOT mirror the capture context here.
-        ctx.drawImage(video, 0, 0);
-        const dataUrl = canvas.toDataURL('image/jpeg', 0.9); // High quality
+      // Note: We do NOT mirror the capture here.
+      const dataUrl = captureFrame(video);
+      if (dataUrl) {
+        const crop = isCropToReticle ? getReticleCrop(video, RETICLE_SIZE_PX) : undefined;
         
         handleCloseCamera();
-        processBase64(dataUrl);
+        processImage(dataUrl, crop);
       }
     }
   };
 
-  const processBase64 = async (base64String: string) => {
+  // Live mode keeps the camera open and classifies steady frames in the background
+  const classifyLiveFrame = async (frameDataUrl: string) => {
+    const crop = isCropToReticle && videoRef.current ? getReticleCrop(videoRef.current, RETICLE_SIZE_PX) : undefined;
+    const prepared = await preprocessImage(frameDataUrl, { crop });
+    return classifier.classify(prepared.dataUrl, { regionId, locale });
+  };
+
+  const handleLiveResult = (result: AnalysisResult, frameDataUrl: string) => {
+    saveScan(result, frameDataUrl)
+      .then(syncInBackground)
+      .catch(e => console.error("History save error:", e));
+  };
+
+  // Runs the preprocessing pipeline (format, orientation, size, metadata) before classifying
+  const processImage = async (dataUrl: string, crop?: BoundingBox) => {
+    try {
+      const prepared = await preprocessImage(dataUrl, { crop });
+      processBase64(prepared.dataUrl);
+    } catch (err: any) {
+      setState(prev => ({ ...prev, error: err.message || t('error.processImage')}));
+    }
+  };
+
+  // Offline scans wait in the outbox instead of failing
+  const queueScan = async (base64String: string, clarifications?: Clarification[]) => {
+    await enqueueScan(base64String, { multiItem: isMultiItem, regionId, clarifications, locale });
+    setPendingCount(count => count + 1);
+    setIsQueued(true);
+    setState(prev => ({ ...prev, isLoading: false, error: null }));
+    requestNotificationPermission();
+  };
+
+  const processBase64 = async (base64String: string, clarifications?: Clarification[], bypassCache = false) => {
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
+    lastClarificationsRef.current = clarifications;
+    lastDescriptionRef.current = null;
+    setIsQueued(false);
     setState(prev => ({ 
       ...prev, 
       imagePreview: base64String,
+      result: null,
+      partial: null,
       isLoading: true,
       error: null 
     }));
 
     try {
-      const result = await analyzeImage(base64String);
-      setState(prev => ({ ...prev, result, isLoading: false }));
+      if (isOffline()) {
+        await queueScan(base64String, clarifications);
+        return;
+      }
+      const classified = await classifier.classify(base64String, {
+        multiItem: isMultiItem,
+        regionId,
+        clarifications,
+        locale,
+        bypassCache,
+        signal: controller.signal,
+        onPartial: partial => {
+          if (!controller.signal.aborted) setState(prev => ({ ...prev, partial }));
+        },
+      });
+      // Keep the follow-up exchange with the result so it's stored in history.
+      const result = clarifications ? { ...classified, clarifications } : classified;
+      setState(prev => ({ ...prev, result, partial: null, isLoading: false }));
+      saveScan(result, base64String)
+        .then(syncInBackground)
+        .catch(e => console.error("History save error:", e));
     } catch (err: any) {
+      // Cancelled by the user; cancelAnalysis has already reset the view
+      if (controller.signal.aborted) return;
+      // The connection dropped mid-request
+      if (isOffline()) {
+        queueScan(base64String, clarifications).catch(e => console.error("Outbox save error:", e));
+        return;
+      }
       setState(prev => ({ 
         ...prev, 
-        error: err.message || "Something went wrong. Please try again.",
+        error: err instanceof ClassifierError ? t(ERROR_MESSAGES[err.code]) : err.message || t('error.generic'),
+        errorRetryable: err instanceof ClassifierError && err.retryable,
+        partial: null,
         isLoading: false 
       }));
+    } finally {
+      if (analysisControllerRef.current === controller) analysisControllerRef.current = null;
+    }
+  };
+
+  // Typed descriptions go through the same classifier prompt, without an image
+  const processDescription = async (description: string, clarifications?: Clarification[]) => {
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
+    lastClarificationsRef.current = clarifications;
+    lastDescriptionRef.current = description;
+    setIsQueued(false);
+    setState({ isLoading: true, result: null, partial: null, error: null, imagePreview: null });
+
+    try {
+      // The outbox only holds photos, so a search needs a connection.
+      if (isOffline()) throw new NetworkError();
+      const classified = await classifier.classifyText(description, {
+        regionId,
+        clarifications,
+        locale,
+        signal: controller.signal,
+        onPartial: partial => {
+          if (!controller.signal.aborted) setState(prev => ({ ...prev, partial }));
+        },
+      });
+      const result: AnalysisResult = { ...classified, source: 'text', query: description, ...(clarifications && { clarifications }) };
+      setState(prev => ({ ...prev, result, partial: null, isLoading: false }));
+      saveScan(result, null)
+        .then(syncInBackground)
+        .catch(e => console.error("History save error:", e));
+    } catch (err: any) {
+      if (controller.signal.aborted) return;
+      setState(prev => ({
+        ...prev,
+        error: err instanceof ClassifierError ? t(ERROR_MESSAGES[err.code]) : err.message || t('error.generic'),
+        errorRetryable: err instanceof ClassifierError && err.retryable,
+        partial: null,
+        isLoading: false
+      }));
+    } finally {
+      if (analysisControllerRef.current === controller) analysisControllerRef.current = null;
     }
   };
 
-  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      if (!file.type.startsWith('image/')) {
-        setState(prev => ({ ...prev, error: "Please upload a valid image file." }));
+  const handleTextSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const description = searchText.trim();
+    if (description) processDescription(description);
+  };
+
+  // Barcodes are looked up in the bundled packaging table; no classifier call
+  const handleBarcode = (gtin: string) => {
+    setIsBarcodeOpen(false);
+    setIsQueued(false);
+    lastDescriptionRef.current = null;
+    const match = lookupProduct(gtin);
+    if (!match) {
+      setState({ isLoading: false, result: null, error: t('barcode.notFound', { code: gtin }), imagePreview: null });
+      return;
+    }
+    const result = productToResult(match.product, match.material, regionId);
+    setState({ isLoading: false, result, error: null, imagePreview: null });
+    saveScan(result, null)
+      .then(syncInBackground)
+      .catch(e => console.error("History save error:", e));
+  };
+
+  const cancelAnalysis = () => {
+    stopSpeaking();
+    analysisControllerRef.current?.abort();
+    analysisControllerRef.current = null;
+    setState({
+      isLoading: false,
+      result: null,
+      error: null,
+      imagePreview: null
+    });
+  };
+
+  const handleFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList || []);
+    if (files.length === 0) return;
+
+    const images = files.filter(isImageFile);
+    if (images.length === 0) {
+      setState(prev => ({ ...prev, error: t('error.invalidFile')}));
+      return;
+    }
+
+    try {
+      // A single image keeps the classic flow; several go through the batch queue.
+      if (images.length === 1) {
+        processImage(await readFileAsDataUrl(images[0]));
         return;
       }
 
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        if (reader.result) {
-          processBase64(reader.result as string);
-        }
-      };
-      reader.readAsDataURL(file);
+      const previews = await Promise.all(images.map(readFileAsDataUrl));
+      setBatchFiles(images.map((file, index) => ({ fileName: file.name, imagePreview: previews[index] })));
+    } catch (err: any) {
+      setState(prev => ({ ...prev, error: err.message || t('error.readFiles')}));
+    }
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleFiles(e.target.files);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFiles(e.dataTransfer.files);
+  };
+
+  // The queue shows an item's error message as-is, so it's translated here.
+  const classifyBatchItem = async (imagePreview: string, signal: AbortSignal) => {
+    try {
+      const prepared = await preprocessImage(imagePreview);
+      return await classifier.classify(prepared.dataUrl, { multiItem: isMultiItem, regionId, signal, locale });
+    } catch (err: any) {
+      throw new Error(err instanceof ClassifierError ? t(ERROR_MESSAGES[err.code]) : err.message || t('error.generic'));
     }
   };
 
+  const handleBatchResult = (item: BatchItem) => {
+    if (item.result) {
+      saveScan(item.result, item.imagePreview)
+        .then(syncInBackground)
+        .catch(e => console.error("History save error:", e));
+    }
+  };
+
+  const openBatchItem = (item: BatchItem) => {
+    if (!item.result) return;
+    setBatchFiles(null);
+    setState({
+      isLoading: false,
+      result: item.result,
+      error: null,
+      imagePreview: item.imagePreview
+    });
+  };
+
   const resetApp = () => {
     handleCloseCamera();
+    stopSpeaking();
+    setIsQueued(false);
     setState({
       isLoading: false,
       result: null,
       error: null,
       imagePreview: null
     });
+    setBatchFiles(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
   };
 
+  const reclassifyWithAnswers = (clarifications: Clarification[]) => {
+    if (state.imagePreview) {
+      processBase64(state.imagePreview, clarifications);
+    } else if (state.result?.query) {
+      processDescription(state.result.query, clarifications);
+    }
+  };
+
+  const retryLastAnalysis = () => {
+    if (lastDescriptionRef.current) {
+      processDescription(lastDescriptionRef.current, lastClarificationsRef.current);
+    } else if (state.imagePreview) {
+      processBase64(state.imagePreview, lastClarificationsRef.current);
+    }
+  };
+
+  // Ignores any cached result; the fresh one replaces it in the cache
+  const reanalyze = () => {
+    if (state.imagePreview) {
+      processBase64(state.imagePreview, undefined, true);
+    }
+  };
+
+  const handleRegionChange = (id: string) => {
+    setRegionId(id);
+    saveSelectedRegionId(id);
+  };
+
+  const handleA11yPrefsChange = (prefs: AccessibilityPrefs) => {
+    setA11yPrefs(prefs);
+    saveAccessibilityPrefs(prefs);
+    if (!prefs.speakResults) stopSpeaking();
+  };
+
+  const handleLocaleChange = (id: string) => {
+    setLocale(id);
+    saveSelectedLocale(id);
+  };
+
+  // Navbar panels and the batch queue take over the main area while open
+  const isMainView = !openPanel && !batchFiles;
+
+  // Shown as soon as the category and item name have streamed in
+  const streamingResult = state.isLoading && state.partial?.category && state.partial.itemName
+    ? toStreamingResult(state.partial, regionId)
+    : null;
+
+  const currentView: View | null = isCameraOpen ? 'camera'
+    : !isMainView ? null
+    : state.isLoading && !streamingResult ? 'loading'
+    : state.error ? 'error'
+    : state.result || streamingResult ? 'result'
+    : isQueued ? null
+    : 'upload';
+
+  // Moves focus to the start of each new state so keyboard and screen reader
+  // users land on it. ResultCard focuses its own heading. The first render
+  // leaves focus where the browser put it.
+  useEffect(() => {
+    const previousView = previousViewRef.current;
+    previousViewRef.current = currentView;
+    if (previousView === null || previousView === currentView) return;
+
+    const target = {
+      upload: uploadHeadingRef,
+      camera: captureButtonRef,
+      loading: loadingHeadingRef,
+      error: errorHeadingRef,
+      result: null,
+    }[currentView || 'result'];
+    target?.current?.focus();
+  }, [currentView]);
+
+  const togglePanel = (panel: Panel) => {
+    // Opening history marks results classified from the outbox as seen
+    if (panel === 'history' && openPanel !== 'history') {
+      unseenCountRef.current = 0;
+      setUnseenCount(0);
+      clearAppBadge();
+    }
+    setOpenPanel(current => (current === panel ? null : panel));
+  };
+
+  // Also opens scans shared by other group members
+  const openHistoryEntry = (entry: ScanHistoryEntry) => {
+    setOpenPanel(null);
+    setState({
+      isLoading: false,
+      result: entry.result,
+      error: null,
+      imagePreview: entry.thumbnail
+    });
+  };
+
   const triggerFileUpload = () => {
     fileInputRef.current?.click();
   };
@@ -251,8 +707,21 @@ const App: React.FC = () => {
   return (
     <div className={`min-h-screen transition-all duration-1000 ease-in-out bg-gradient-to-br ${getAmbientStyles()} flex flex-col relative overflow-hidden font-sans`}>
       
+      {/* Skip Link */}
+      <a href="#main" className="sr-only focus:not-sr-only focus:fixed focus:top-4 focus:start-4 focus:z-[80] focus:px-4 focus:py-2 focus:rounded-full focus:bg-emerald-700 focus:text-white focus:font-bold">
+        {t('a11y.skipToMain')}
+      </a>
+
+      {/* Screen Reader Announcements */}
+      <div role="status" aria-live="polite" className="sr-only">
+        {announcement && !announcement.urgent ? announcement.text : ''}
+      </div>
+      <div role="alert" aria-live="assertive" className="sr-only">
+        {announcement?.urgent ? announcement.text : ''}
+      </div>
+
       {/* Background Pattern */}
-      <div className="absolute inset-0 opacity-[0.03] pointer-events-none" 
+      <div aria-hidden="true" className="absolute inset-0 opacity-[0.03] pointer-events-none" 
            style={{ backgroundImage: 'radial-gradient(#0f172a 1px, transparent 1px)', backgroundSize: '24px 24px' }}>
       </div>
 
@@ -260,28 +729,98 @@ const App: React.FC = () => {
       <nav className="sticky top-0 z-50 bg-white/70 backdrop-blur-xl border-b border-white/20 shadow-sm transition-colors duration-500">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex justify-between items-center h-20">
-            <div className="flex items-center gap-3 cursor-pointer group" onClick={resetApp}>
+            <button type="button" className="flex items-center gap-3 group text-start rounded-xl" onClick={() => { setOpenPanel(null); resetApp(); }}>
               <div className="w-10 h-10 bg-gradient-to-tr from-emerald-500 to-teal-500 rounded-xl flex items-center justify-center text-white shadow-emerald-500/20 shadow-lg transform group-hover:rotate-6 transition-all duration-300">
                 <Icons.Recycle className="w-6 h-6" />
               </div>
               <div className="flex flex-col">
                 <span className="font-black text-xl tracking-tight text-slate-800 leading-none">ECO SORT</span>
-                <span className="text-xs font-semibold text-emerald-600 tracking-wider">AI WASTE TRIAGE</span>
+                <span className="text-xs font-semibold text-emerald-600 tracking-wider">{t('nav.tagline')}</span>
               </div>
-            </div>
-            {state.result && (
-              <Button variant="ghost" onClick={resetApp} className="hidden sm:flex">
-                <Icons.Scan className="w-4 h-4 mr-2" />
-                New Scan
+            </button>
+            <div className="flex items-center gap-2">
+              {state.result && isMainView && (
+                <Button variant="ghost" onClick={resetApp} className="hidden sm:flex">
+                  <Icons.Scan className="w-4 h-4 me-2" />
+                  {t('nav.newScan')}
+                </Button>
+              )}
+              {pendingCount > 0 && (
+                <span className="hidden sm:inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-amber-50 border border-amber-200 text-xs font-bold text-amber-800">
+                  <Icons.CloudOff className="w-4 h-4" />
+                  {t('outbox.pending', { count: pendingCount })}
+                </span>
+              )}
+              <Button variant="ghost" onClick={() => togglePanel('group')} disabled={state.isLoading}>
+                <Icons.Group className="w-4 h-4 sm:me-2" />
+                <span className="hidden sm:inline">{t('nav.group')}</span>
               </Button>
-            )}
+              <Button variant="ghost" onClick={() => togglePanel('impact')} disabled={state.isLoading}>
+                <Icons.Impact className="w-4 h-4 sm:me-2" />
+                <span className="hidden sm:inline">{t('nav.impact')}</span>
+              </Button>
+              <Button variant="ghost" onClick={() => togglePanel('history')} disabled={state.isLoading} className="relative">
+                <Icons.History className="w-4 h-4 sm:me-2" />
+                <span className="hidden sm:inline">{t('nav.history')}</span>
+                {unseenCount > 0 && (
+                  <span className="absolute -top-1 -end-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-emerald-500 text-white text-[10px] font-black flex items-center justify-center">
+                    {unseenCount}
+                  </span>
+                )}
+              </Button>
+              <div className="relative">
+                <Button
+                  variant="ghost"
+                  onClick={() => setIsA11yMenuOpen(open => !open)}
+                  aria-expanded={isA11yMenuOpen}
+                  aria-haspopup="dialog"
+                  aria-label={t('a11y.menu')}
+                >
+                  <Icons.Accessibility className="w-4 h-4" />
+                </Button>
+                {isA11yMenuOpen && (
+                  <AccessibilityMenu
+                    prefs={a11yPrefs}
+                    locale={locale}
+                    onChange={handleA11yPrefsChange}
+                    onClose={() => setIsA11yMenuOpen(false)}
+                  />
+                )}
+              </div>
+              <select
+                value={locale}
+                onChange={(e) => handleLocaleChange(e.target.value)}
+                aria-label={t('nav.language')}
+                className="px-3 py-2 rounded-xl border border-slate-200 bg-white/80 text-sm font-semibold text-slate-700 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              >
+                {LOCALES.map(option => (
+                  <option key={option.id} value={option.id}>{option.name}</option>
+                ))}
+              </select>
+            </div>
           </div>
         </div>
       </nav>
 
+      {/* Failed Queued Scans */}
+      {outboxFailure && (
+        <div role="status" className="relative z-40 px-4 mt-4">
+          <div className="max-w-3xl mx-auto flex items-start gap-3 px-4 py-3 rounded-2xl bg-rose-50 border border-rose-200 text-sm text-rose-800">
+            <Icons.CloudOff className="w-5 h-5 flex-shrink-0 mt-0.5" aria-hidden="true" />
+            <p className="flex-1">
+              <span className="font-bold">{t('outbox.failedBody', { count: outboxFailure.count })}</span>{' '}
+              {t(outboxFailure.message)}
+            </p>
+            <button onClick={() => setOutboxFailure(null)} aria-label={t('a11y.close')} className="p-1 rounded-full hover:bg-rose-100">
+              <Icons.X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Camera Overlay */}
       {isCameraOpen && (
-        <div className="fixed inset-0 z-[60] bg-black flex flex-col items-center justify-center animate-in fade-in duration-300">
+        <div role="dialog" aria-modal="true" aria-label={t('camera.title')} className="fixed inset-0 z-[60] bg-black flex flex-col items-center justify-center animate-in fade-in duration-300">
           <video 
             ref={videoRef} 
             autoPlay 
@@ -294,7 +833,7 @@ const App: React.FC = () => {
           {/* Overlay Graphics */}
           <div className="absolute inset-0 pointer-events-none">
              {/* Reticle */}
-             <div className="absolute inset-0 flex items-center justify-center">
+             <div aria-hidden="true" className="absolute inset-0 flex items-center justify-center">
                <div className="w-64 h-64 border-2 border-white/30 rounded-3xl relative">
                   <div className="absolute top-0 left-0 w-8 h-8 border-t-4 border-l-4 border-emerald-500 -mt-1 -ml-1 rounded-tl-xl"></div>
                   <div className="absolute top-0 right-0 w-8 h-8 border-t-4 border-r-4 border-emerald-500 -mt-1 -mr-1 rounded-tr-xl"></div>
@@ -307,25 +846,47 @@ const App: React.FC = () => {
              </div>
              
              {/* Text Hint */}
-             <div className="absolute bottom-32 left-0 right-0 text-center">
+             <div className={`absolute bottom-32 left-0 right-0 text-center ${isLiveMode ? 'hidden' : ''}`}>
                <p className="text-white/80 font-medium text-sm bg-black/40 inline-block px-4 py-2 rounded-full backdrop-blur-sm">
-                 Align waste item within the frame
+                 {isCropToReticle ? t('camera.hintCrop') : t('camera.hint')}
                </p>
              </div>
           </div>
 
+          {isLiveMode && (
+            <LiveScanOverlay
+              locale={locale}
+              videoRef={videoRef}
+              regionPack={getRegionPack(regionId)}
+              minIntervalMs={appConfig.liveScanIntervalMs}
+              classify={classifyLiveFrame}
+              onResult={handleLiveResult}
+            />
+          )}
+
           {/* Top Controls */}
           <div className="absolute top-6 right-6 flex flex-col gap-4 z-20">
              {hasTorch && (
                <button
                  onClick={toggleTorch}
+                 aria-label={t('camera.torch')}
+                 aria-pressed={isTorchOn}
                  className={`p-3 rounded-full backdrop-blur-md transition-colors ${isTorchOn ? 'bg-yellow-400 text-black' : 'bg-black/30 text-white'}`}
                >
                  {isTorchOn ? <Icons.Zap className="w-6 h-6 fill-current" /> : <Icons.ZapOff className="w-6 h-6" />}
                </button>
              )}
+             <button
+               onClick={() => setIsCropToReticle(crop => !crop)}
+               aria-label={t('camera.crop')}
+               aria-pressed={isCropToReticle}
+               className={`p-3 rounded-full backdrop-blur-md transition-colors ${isCropToReticle ? 'bg-emerald-500 text-white' : 'bg-black/30 text-white hover:bg-black/50'}`}
+             >
+               <Icons.Crop className="w-6 h-6" />
+             </button>
              <button
                onClick={toggleCamera}
+               aria-label={t('camera.switch')}
                className="p-3 rounded-full bg-black/30 backdrop-blur-md text-white hover:bg-black/50 transition-colors"
              >
                <Icons.SwitchCamera className="w-6 h-6" />
@@ -336,93 +897,203 @@ const App: React.FC = () => {
           <div className="absolute bottom-10 left-0 right-0 flex items-center justify-center gap-12 z-10">
             <button 
               onClick={handleCloseCamera}
+              aria-label={t('camera.close')}
               className="p-4 rounded-full bg-white/10 backdrop-blur-md text-white hover:bg-white/20 transition-colors"
             >
               <Icons.X className="w-6 h-6" />
             </button>
             
             <button 
+              ref={captureButtonRef}
               onClick={capturePhoto}
+              aria-label={t('camera.capture')}
               className="w-20 h-20 rounded-full border-4 border-white flex items-center justify-center hover:scale-105 transition-transform bg-transparent active:scale-95"
             >
-              <div className="w-16 h-16 rounded-full bg-white"></div>
+              <div aria-hidden="true" className="w-16 h-16 rounded-full bg-white"></div>
             </button>
             
-            <div className="w-14"></div> {/* Spacer for symmetry */}
+            <button
+              onClick={() => setIsLiveMode(live => !live)}
+              aria-label={t('camera.live')}
+              aria-pressed={isLiveMode}
+              className={`p-4 rounded-full backdrop-blur-md transition-colors ${isLiveMode ? 'bg-emerald-500 text-white' : 'bg-white/10 text-white hover:bg-white/20'}`}
+            >
+              <Icons.Live className={`w-6 h-6 ${isLiveMode ? 'animate-pulse' : ''}`} />
+            </button>
           </div>
         </div>
       )}
 
-      <main className="flex-grow flex flex-col items-center justify-center px-4 sm:px-6 py-12 relative z-10">
+      <main id="main" className="flex-grow flex flex-col items-center justify-center px-4 sm:px-6 py-12 relative z-10">
         <div className="w-full max-w-5xl mx-auto space-y-12">
-          
+
+          {/* Scan History */}
+          {openPanel === 'history' && (
+            <HistoryView locale={locale} onOpen={openHistoryEntry} onClose={() => setOpenPanel(null)} />
+          )}
+
+          {/* Impact Dashboard */}
+          {openPanel === 'impact' && (
+            <ImpactDashboard locale={locale} onClose={() => setOpenPanel(null)} />
+          )}
+
+          {/* Household / Team */}
+          {openPanel === 'group' && (
+            <GroupView locale={locale} onOpen={openHistoryEntry} onClose={() => setOpenPanel(null)} />
+          )}
+
+          {/* Batch Queue: hidden rather than unmounted under a panel, so the queue isn't started again */}
+          {batchFiles && (
+            <div hidden={!!openPanel}>
+              <BatchView
+                locale={locale}
+                files={batchFiles}
+                classify={classifyBatchItem}
+                onResult={handleBatchResult}
+                onOpen={openBatchItem}
+                onClose={resetApp}
+              />
+            </div>
+          )}
+
+          {/* Queued Offline */}
+          {isMainView && isQueued && (
+            <div className="max-w-md mx-auto bg-white border border-amber-100 rounded-2xl p-8 text-center shadow-xl shadow-amber-100 animate-in fade-in slide-in-from-bottom-4">
+              <div className="w-16 h-16 bg-amber-100 text-amber-600 rounded-full flex items-center justify-center mx-auto mb-6">
+                <Icons.CloudOff className="w-8 h-8" />
+              </div>
+              <h3 className="text-xl font-bold text-slate-900 mb-2">{t('outbox.queuedTitle')}</h3>
+              <p className="text-slate-600 mb-8">{t('outbox.queuedBody')}</p>
+              <Button onClick={resetApp} variant="outline" className="w-full">
+                {t('outbox.scanAnother')}
+              </Button>
+            </div>
+          )}
+
           {/* Hero Section (Hidden when result is shown) */}
-          {!state.result && !state.isLoading && (
+          {isMainView && !state.result && !state.isLoading && !isQueued && (
             <div className="text-center space-y-8 animate-in fade-in slide-in-from-bottom-8 duration-700">
               <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-white border border-emerald-100 shadow-sm text-sm font-semibold text-emerald-800 mb-4 animate-bounce-slow">
                 <Icons.Sparkles className="w-4 h-4 text-emerald-500" />
                 <span className="bg-gradient-to-r from-emerald-600 to-teal-600 bg-clip-text text-transparent">
-                  Powered by Gemini 3 Pro
+                  {t('hero.badge')}
                 </span>
               </div>
               
               <h1 className="text-5xl md:text-7xl font-black text-slate-900 tracking-tight leading-tight">
-                Don't guess.<br />
-                <span className="bg-gradient-to-r from-emerald-500 to-teal-600 bg-clip-text text-transparent">Just Sort.</span>
+                {t('hero.titleLine1')}<br />
+                <span className="bg-gradient-to-r from-emerald-500 to-teal-600 bg-clip-text text-transparent">{t('hero.titleLine2')}</span>
               </h1>
               
               <p className="text-xl text-slate-600 max-w-2xl mx-auto leading-relaxed">
-                The intelligent visual classifier that helps you separate <strong className="text-emerald-600">Recycle</strong>, <strong className="text-amber-500">Compost</strong>, <strong className="text-rose-600">Hazard</strong>, and <strong className="text-slate-500">Trash</strong> instantly.
+                {t('hero.subtitle').split(/(\{\w+\})/).map((part, index) => {
+                  const highlight = HERO_HIGHLIGHTS[part.slice(1, -1)];
+                  return highlight
+                    ? <strong key={index} className={highlight.className}>{t(highlight.key)}</strong>
+                    : part;
+                })}
               </p>
             </div>
           )}
 
           {/* Action Area */}
-          {!state.result && (
+          {isMainView && !state.result && !isQueued && !streamingResult && (
             <div className={`relative w-full max-w-xl mx-auto transition-all duration-500 ${state.isLoading ? 'scale-95 opacity-0' : 'scale-100 opacity-100'}`}>
               <input
                 type="file"
                 ref={fileInputRef}
                 className="hidden"
-                accept="image/*"
+                accept="image/*,.heic,.heif"
+                multiple
                 onChange={handleFileSelect}
               />
               
-              <div className="bg-white/80 backdrop-blur-sm border-2 border-dashed border-slate-300 rounded-[2.5rem] p-10 text-center shadow-lg shadow-slate-200/50">
+              <div
+                onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                className={`bg-white/80 backdrop-blur-sm border-2 border-dashed rounded-[2.5rem] p-10 text-center shadow-lg shadow-slate-200/50 transition-colors ${isDragging ? 'border-emerald-500 bg-emerald-50/80' : 'border-slate-300'}`}
+              >
                 <div className="flex flex-col items-center gap-8">
                    <div className="w-20 h-20 bg-gradient-to-tr from-emerald-100 to-teal-50 rounded-full flex items-center justify-center text-emerald-600 shadow-sm">
                       <Icons.Scan className="w-10 h-10" />
                    </div>
                    
                    <div>
-                     <h3 className="text-2xl font-bold text-slate-800">Identify Waste</h3>
-                     <p className="text-slate-500 mt-2 font-medium">Take a photo or upload to classify</p>
+                     <h3 ref={uploadHeadingRef} tabIndex={-1} className="text-2xl font-bold text-slate-800 focus:outline-none">{t('upload.title')}</h3>
+                     <p className="text-slate-500 mt-2 font-medium">{t('upload.subtitle')}</p>
                    </div>
 
                    <div className="flex flex-col sm:flex-row gap-4 w-full justify-center">
                       <Button onClick={() => startCamera('environment')} variant="primary" className="flex-1 py-4 text-base">
-                        <Icons.Camera className="w-5 h-5 mr-2" />
-                        Open Camera
+                        <Icons.Camera className="w-5 h-5 me-2" />
+                        {t('upload.openCamera')}
                       </Button>
                       <Button onClick={triggerFileUpload} variant="secondary" className="flex-1 py-4 text-base">
-                        <Icons.Upload className="w-5 h-5 mr-2" />
-                        Upload File
+                        <Icons.Upload className="w-5 h-5 me-2" />
+                        {t('upload.uploadFile')}
+                      </Button>
+                      <Button onClick={() => setIsBarcodeOpen(true)} variant="secondary" className="flex-1 py-4 text-base">
+                        <Icons.Barcode className="w-5 h-5 me-2" />
+                        {t('upload.scanBarcode')}
                       </Button>
                    </div>
+
+                   {/* Text Search */}
+                   <form onSubmit={handleTextSearch} className="flex gap-2 w-full">
+                     <div className="relative flex-1 min-w-0">
+                       <Icons.Search aria-hidden="true" className="w-5 h-5 absolute start-4 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none" />
+                       <input
+                         type="search"
+                         aria-label={t('upload.searchLabel')}
+                         value={searchText}
+                         onChange={(e) => setSearchText(e.target.value)}
+                         maxLength={MAX_DESCRIPTION_LENGTH}
+                         placeholder={t('upload.searchPlaceholder')}
+                         className="w-full ps-12 pe-4 py-3 rounded-full border border-slate-200 bg-white text-slate-800 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                       />
+                     </div>
+                     <Button type="submit" variant="outline" disabled={!searchText.trim()}>
+                       {t('upload.search')}
+                     </Button>
+                   </form>
+
+                   {/* Multi-item Toggle */}
+                   <label className="flex items-center gap-3 cursor-pointer select-none text-sm font-semibold text-slate-600">
+                     <input
+                       type="checkbox"
+                       checked={isMultiItem}
+                       onChange={(e) => setIsMultiItem(e.target.checked)}
+                       className="w-4 h-4 accent-emerald-600"
+                     />
+                     {t('upload.multiItem')}
+                   </label>
+
+                   {/* Region Rule Pack */}
+                   <label className="flex items-center gap-3 text-sm font-semibold text-slate-600">
+                     {t('upload.localRules')}
+                     <select
+                       value={regionId}
+                       onChange={(e) => handleRegionChange(e.target.value)}
+                       className="px-3 py-2 rounded-xl border border-slate-200 bg-white text-slate-800 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                     >
+                       {REGION_PACKS.map(pack => (
+                         <option key={pack.id} value={pack.id}>{pack.name} (v{pack.version})</option>
+                       ))}
+                     </select>
+                   </label>
                 </div>
               </div>
 
               {/* Categories Strip */}
-              <div className="mt-12 flex justify-center gap-8 md:gap-16 opacity-80 hover:opacity-100 transition-opacity">
-                 {[
-                   { label: 'Recycle', color: 'bg-emerald-500' },
-                   { label: 'Compost', color: 'bg-amber-400' },
-                   { label: 'Hazard', color: 'bg-red-600 animate-pulse' },
-                   { label: 'Trash', color: 'bg-slate-500' }
-                 ].map((cat) => (
-                   <div key={cat.label} className="flex flex-col items-center gap-3 group/cat cursor-default">
-                     <div className={`w-3 h-3 rounded-full ${cat.color} ring-4 ring-white shadow-md group-hover/cat:scale-125 transition-transform`} />
-                     <span className="text-xs font-bold text-slate-400 uppercase tracking-widest group-hover/cat:text-slate-600">{cat.label}</span>
+              <div className="mt-12 flex flex-wrap justify-center gap-8 md:gap-16 opacity-80 hover:opacity-100 transition-opacity">
+                 {getRegionPack(regionId).bins.map((bin) => (
+                   <div key={bin.id} className="flex flex-col items-center gap-3 group/cat cursor-default">
+                     <div
+                       className={`w-3 h-3 rounded-full ring-4 ring-white shadow-md group-hover/cat:scale-125 transition-transform ${bin.category === WasteCategory.HAZARD ? 'animate-pulse' : ''}`}
+                       style={{ backgroundColor: bin.color }}
+                     />
+                     <span className="text-xs font-bold text-slate-400 uppercase tracking-widest group-hover/cat:text-slate-600 text-center">{bin.label}</span>
                    </div>
                  ))}
               </div>
@@ -430,9 +1101,9 @@ const App: React.FC = () => {
           )}
 
           {/* Loading State */}
-          {state.isLoading && (
+          {state.isLoading && !streamingResult && (
             <div className="absolute inset-0 flex flex-col items-center justify-center z-20 animate-in fade-in zoom-in duration-500">
-              <div className="relative w-32 h-32">
+              <div aria-hidden="true" className="relative w-32 h-32">
                 <div className="absolute inset-0 border-t-4 border-emerald-500 rounded-full animate-spin"></div>
                 <div className="absolute inset-3 border-r-4 border-teal-400 rounded-full animate-spin animation-delay-200"></div>
                 <div className="absolute inset-6 border-b-4 border-emerald-300 rounded-full animate-spin animation-delay-500"></div>
@@ -440,31 +1111,66 @@ const App: React.FC = () => {
                   <Icons.Scan className="w-10 h-10 text-emerald-600 animate-pulse" />
                 </div>
               </div>
-              <h2 className="mt-8 text-2xl font-black text-slate-800 tracking-tight">Processing Image</h2>
-              <p className="text-slate-500 mt-2 font-medium animate-pulse">Consulting expert rules...</p>
+              <h2 ref={loadingHeadingRef} tabIndex={-1} className="mt-8 text-2xl font-black text-slate-800 tracking-tight focus:outline-none">{t('loading.title')}</h2>
+              <p className="text-slate-500 mt-2 font-medium animate-pulse">{t('loading.subtitle')}</p>
+              <Button onClick={cancelAnalysis} variant="ghost" className="mt-6">
+                <Icons.X className="w-4 h-4 me-2" />
+                {t('loading.cancel')}
+              </Button>
             </div>
           )}
 
+          {/* Streaming Result */}
+          {isMainView && streamingResult && (
+            <ResultCard
+              result={streamingResult}
+              imagePreview={state.imagePreview}
+              onReset={cancelAnalysis}
+              locale={locale}
+              isStreaming
+            />
+          )}
+
           {/* Error State */}
-          {state.error && (
-            <div className="max-w-md mx-auto bg-white border border-rose-100 rounded-2xl p-8 text-center shadow-xl shadow-rose-100 animate-in fade-in slide-in-from-bottom-4">
+          {isMainView && state.error && (
+            <div role="alert" className="max-w-md mx-auto bg-white border border-rose-100 rounded-2xl p-8 text-center shadow-xl shadow-rose-100 animate-in fade-in slide-in-from-bottom-4">
               <div className="w-16 h-16 bg-rose-100 text-rose-600 rounded-full flex items-center justify-center mx-auto mb-6">
                 <Icons.Hazard className="w-8 h-8" />
               </div>
-              <h3 className="text-xl font-bold text-slate-900 mb-2">Analysis Failed</h3>
+              <h3 ref={errorHeadingRef} tabIndex={-1} className="text-xl font-bold text-slate-900 mb-2 focus:outline-none">{t('error.title')}</h3>
               <p className="text-slate-600 mb-8">{state.error}</p>
-              <Button onClick={resetApp} variant="outline" className="w-full">
-                Try Again
-              </Button>
+              <div className="flex flex-col gap-3">
+                {state.errorRetryable && (state.imagePreview || lastDescriptionRef.current) && (
+                  <Button onClick={retryLastAnalysis} className="w-full">
+                    <Icons.Refresh className="w-4 h-4 me-2" />
+                    {t('error.retrySameImage')}
+                  </Button>
+                )}
+                <Button onClick={resetApp} variant="outline" className="w-full">
+                  {t('error.tryAgain')}
+                </Button>
+              </div>
             </div>
           )}
 
+          {/* Barcode Scanner */}
+          {isBarcodeOpen && (
+            <BarcodeScanner
+              locale={locale}
+              onDetected={handleBarcode}
+              onClose={() => setIsBarcodeOpen(false)}
+            />
+          )}
+
           {/* Result Card */}
-          {state.result && (
+          {isMainView && state.result && (
             <ResultCard 
               result={state.result} 
               imagePreview={state.imagePreview}
               onReset={resetApp} 
+              onClarify={reclassifyWithAnswers}
+              onReanalyze={reanalyze}
+              locale={locale}
             />
           )}
 
@@ -473,7 +1179,7 @@ const App: React.FC = () => {
 
       <footer className={`relative z-10 py-8 text-center ${state.result?.category === WasteCategory.HAZARD ? 'text-slate-400' : 'text-slate-400'}`}>
          <p className="text-sm font-medium">
-           ECO SORT &copy; {new Date().getFullYear()} • Powered by Google Gemini
+           ECO SORT &copy; {new Date().getFullYear()} • {t('footer.poweredBy')}
          </p>
       </footer>
     </div>
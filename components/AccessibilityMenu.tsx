@@ -0,0 +1,55 @@
+import React from 'react';
+import { AccessibilityPrefs } from '../types';
+import { isSpeechSupported } from '../services/accessibilityService';
+import { MessageKey, createTranslator } from '../services/i18n';
+import { useDialogFocus } from './useDialogFocus';
+
+interface AccessibilityMenuProps {
+  prefs: AccessibilityPrefs;
+  locale: string;
+  onChange: (prefs: AccessibilityPrefs) => void;
+  onClose: () => void;
+}
+
+const OPTIONS: { key: keyof AccessibilityPrefs; label: MessageKey }[] = [
+  { key: 'speakResults', label: 'a11y.speakResults' },
+  { key: 'reduceMotion', label: 'a11y.reduceMotion' },
+  { key: 'highContrast', label: 'a11y.highContrast' },
+];
+
+export const AccessibilityMenu: React.FC<AccessibilityMenuProps> = ({ prefs, locale, onChange, onClose }) => {
+  const t = createTranslator(locale);
+  const menuRef = useDialogFocus<HTMLDivElement>(onClose);
+  const speechSupported = isSpeechSupported();
+
+  return (
+    <div
+      ref={menuRef}
+      role="dialog"
+      aria-label={t('a11y.menu')}
+      className="absolute top-full end-0 mt-2 w-72 bg-white rounded-2xl shadow-2xl border border-slate-100 p-4 z-[55] text-slate-800"
+    >
+      <h2 className="text-xs font-bold uppercase tracking-widest text-slate-500 mb-3">{t('a11y.menu')}</h2>
+      <div className="space-y-3">
+        {OPTIONS.map(({ key, label }) => {
+          const disabled = key === 'speakResults' && !speechSupported;
+          return (
+            <label key={key} className={`flex items-start gap-3 text-sm font-semibold ${disabled ? 'opacity-50' : 'cursor-pointer'}`}>
+              <input
+                type="checkbox"
+                checked={prefs[key] && !disabled}
+                disabled={disabled}
+                onChange={(e) => onChange({ ...prefs, [key]: e.target.checked })}
+                className="mt-0.5 w-4 h-4 accent-emerald-600 flex-shrink-0"
+              />
+              <span>
+                {t(label)}
+                {disabled && <span className="block text-xs font-medium text-slate-500">{t('a11y.speechUnsupported')}</span>}
+              </span>
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { detectBarcode, normalizeGtin } from '../services/barcodeService';
+import { createTranslator } from '../services/i18n';
+import { Icons } from './Icons';
+import { Button } from './Button';
+import { useDialogFocus } from './useDialogFocus';
+
+interface BarcodeScannerProps {
+  locale: string;
+  onDetected: (gtin: string) => void;
+  onClose: () => void;
+}
+
+const SCAN_INTERVAL_MS = 250;
+
+export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ locale, onDetected, onClose }) => {
+  const t = createTranslator(locale);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [cameraError, setCameraError] = useState(false);
+  const [manualCode, setManualCode] = useState('');
+  const [manualError, setManualError] = useState(false);
+  const dialogRef = useDialogFocus<HTMLDivElement>(onClose);
+
+  // Kept in a ref so the scan loop doesn't restart on every render.
+  const onDetectedRef = useRef(onDetected);
+  onDetectedRef.current = onDetected;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (cancelled || !video) return;
+      const gtin = video.readyState >= 2 ? await detectBarcode(video) : null;
+      if (cancelled) return;
+      if (gtin) {
+        onDetectedRef.current(gtin);
+        return;
+      }
+      timer = setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then(mediaStream => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+          videoRef.current.play().catch(console.error);
+        }
+        scan();
+      })
+      .catch(err => {
+        console.error("Barcode camera error:", err);
+        if (!cancelled) setCameraError(true);
+      });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const gtin = normalizeGtin(manualCode);
+    if (gtin) {
+      onDetected(gtin);
+    } else {
+      setManualError(true);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-300">
+      <div ref={dialogRef} role="dialog" aria-modal="true" aria-labelledby="barcode-title" className="w-full max-w-md bg-white rounded-3xl shadow-2xl p-6 sm:p-8 text-slate-900">
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <h3 id="barcode-title" className="text-2xl font-black tracking-tight">{t('barcode.title')}</h3>
+            <p className="text-sm text-slate-500 font-medium mt-1">{t('barcode.subtitle')}</p>
+          </div>
+          <button onClick={onClose} aria-label={t('a11y.close')} className="p-2 rounded-full text-slate-400 hover:bg-slate-100 hover:text-slate-700 transition-colors">
+            <Icons.X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Camera Viewfinder */}
+        {cameraError ? (
+          <div className="flex flex-col items-center gap-3 p-6 mb-6 rounded-2xl bg-slate-100 text-slate-500 text-sm font-medium text-center">
+            <Icons.CloudOff className="w-8 h-8" />
+            {t('barcode.cameraUnavailable')}
+          </div>
+        ) : (
+          <div className="relative aspect-[4/3] mb-6 rounded-2xl overflow-hidden bg-slate-900">
+            <video ref={videoRef} autoPlay playsInline muted aria-hidden="true" className="w-full h-full object-cover" />
+            <div aria-hidden="true" className="absolute inset-x-8 top-1/2 h-0.5 bg-rose-500/80 shadow-[0_0_8px_rgba(244,63,94,0.8)] animate-pulse" />
+          </div>
+        )}
+
+        {/* Manual Entry */}
+        <form onSubmit={handleManualSubmit}>
+          <label htmlFor="barcode-number" className="block text-xs font-bold uppercase tracking-widest text-slate-500 mb-2">
+            {t('barcode.manualLabel')}
+          </label>
+          <div className="flex gap-2">
+            <input
+              id="barcode-number"
+              value={manualCode}
+              aria-invalid={manualError}
+              aria-describedby={manualError ? 'barcode-error' : undefined}
+              onChange={(e) => { setManualCode(e.target.value); setManualError(false); }}
+              inputMode="numeric"
+              autoComplete="off"
+              placeholder="5901234123457"
+              maxLength={16}
+              className="flex-1 min-w-0 px-4 py-3 rounded-xl border border-slate-200 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-emerald-500"
+            />
+            <Button type="submit" disabled={!manualCode.trim()}>
+              {t('barcode.lookUp')}
+            </Button>
+          </div>
+          {manualError && (
+            <p id="barcode-error" role="alert" className="text-sm text-rose-600 font-medium mt-2">{t('barcode.invalid')}</p>
+          )}
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AnalysisResult, BatchItem, WasteCategory } from '../types';
+import { BatchQueue, createBatchQueue } from '../services/batchQueue';
+import { downloadTextFile } from '../services/fileUtils';
+import { MessageKey, createTranslator } from '../services/i18n';
+import { Icons } from './Icons';
+import { Button } from './Button';
+
+interface BatchViewProps {
+  locale: string;
+  files: { fileName: string; imagePreview: string }[];
+  concurrency?: number;
+  classify: (imagePreview: string, signal: AbortSignal) => Promise<AnalysisResult>;
+  onResult: (item: BatchItem) => void;
+  onOpen: (item: BatchItem) => void;
+  onClose: () => void;
+}
+
+const CATEGORY_ORDER: { category: WasteCategory; color: string }[] = [
+  { category: WasteCategory.RECYCLE, color: 'bg-emerald-500' },
+  { category: WasteCategory.COMPOST, color: 'bg-amber-400' },
+  { category: WasteCategory.HAZARD, color: 'bg-red-600' },
+  { category: WasteCategory.TRASH, color: 'bg-slate-500' },
+  { category: WasteCategory.UNKNOWN, color: 'bg-indigo-400' },
+];
+
+const STATUS_STYLES: Record<BatchItem['status'], { label: MessageKey; bar: string; width: string }> = {
+  queued: { label: 'batch.queued', bar: 'bg-slate-300', width: 'w-0' },
+  processing: { label: 'batch.processing', bar: 'bg-emerald-400 animate-pulse', width: 'w-2/3' },
+  done: { label: 'batch.done', bar: 'bg-emerald-500', width: 'w-full' },
+  error: { label: 'batch.error', bar: 'bg-rose-500', width: 'w-full' },
+  cancelled: { label: 'batch.cancelled', bar: 'bg-slate-300', width: 'w-full' },
+};
+
+const csvCell = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toBatchCsv = (items: BatchItem[]): string => {
+  const header = ['file', 'category', 'bin', 'item', 'confidence', 'disposal_action'];
+  const rows = items
+    .filter(item => item.result)
+    .map(({ fileName, result }) => [
+      fileName,
+      result!.category,
+      result!.binId,
+      result!.itemName,
+      result!.confidence.toFixed(2),
+      result!.disposalAction,
+    ].map(csvCell).join(','));
+  return [header.join(','), ...rows].join('\n');
+};
+
+export const BatchView: React.FC<BatchViewProps> = ({ locale, files, concurrency = 2, classify, onResult, onOpen, onClose }) => {
+  const t = createTranslator(locale);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const queueRef = useRef<BatchQueue | null>(null);
+
+  // Refs survive StrictMode's double effect run, so files are only queued once.
+  useEffect(() => {
+    if (!queueRef.current) {
+      queueRef.current = createBatchQueue({ concurrency, classify, onChange: setItems, onResult });
+      queueRef.current.add(files);
+    }
+  }, []);
+
+  const handleClose = () => {
+    queueRef.current?.cancelAll();
+    onClose();
+  };
+
+  const finished = items.filter(item => item.status !== 'queued' && item.status !== 'processing').length;
+  const isRunning = finished < items.length;
+  const completed = items.filter(item => item.result);
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadTextFile(`eco-sort-batch-${date}.csv`, toBatchCsv(items), 'text/csv');
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto animate-in fade-in slide-in-from-bottom-8 duration-700">
+      <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl shadow-slate-200/50 border border-slate-100 p-6 sm:p-8">
+
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-3xl font-black tracking-tight text-slate-900">{t('batch.title')}</h2>
+            <p className="text-slate-500 font-medium text-sm mt-1">{t('batch.progress', { finished, total: items.length })}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            {isRunning && (
+              <Button variant="outline" onClick={() => queueRef.current?.cancelAll()}>
+                {t('batch.cancelAll')}
+              </Button>
+            )}
+            <Button variant="ghost" onClick={handleClose} aria-label={t('a11y.close')}>
+              <Icons.X className="w-5 h-5" />
+            </Button>
+          </div>
+        </div>
+
+        {/* Overall Progress */}
+        <div className="h-2 rounded-full bg-slate-100 overflow-hidden mb-6">
+          <div
+            className="h-full bg-gradient-to-r from-emerald-500 to-teal-500 transition-all duration-500"
+            style={{ width: `${items.length ? (finished / items.length) * 100 : 0}%` }}
+          />
+        </div>
+
+        {/* Queue */}
+        <ul className="divide-y divide-slate-100 mb-8">
+          {items.map(item => {
+            const status = STATUS_STYLES[item.status];
+            return (
+              <li key={item.id} className="flex items-center gap-4 py-3">
+                <img src={item.imagePreview} alt="" className="w-12 h-12 rounded-xl object-cover flex-shrink-0 bg-slate-100" />
+                <div className="flex-grow min-w-0">
+                  <div className="flex items-center justify-between gap-2">
+                    <button
+                      onClick={() => item.result && onOpen(item)}
+                      disabled={!item.result}
+                      className="font-bold text-slate-800 truncate text-start enabled:hover:text-emerald-600"
+                    >
+                      {item.result ? item.result.itemName : item.fileName}
+                    </button>
+                    <span className="text-xs font-bold uppercase tracking-wider text-slate-400 flex-shrink-0">
+                      {t(item.result ? `category.${item.result.category}` : status.label)}
+                    </span>
+                  </div>
+                  <div className="h-1.5 rounded-full bg-slate-100 overflow-hidden mt-2">
+                    <div className={`h-full ${status.bar} ${status.width} transition-all duration-500`} />
+                  </div>
+                  {item.error && <p className="text-xs font-medium text-rose-600 mt-1">{item.error}</p>}
+                </div>
+                {(item.status === 'queued' || item.status === 'processing') && (
+                  <button onClick={() => queueRef.current?.cancel(item.id)} aria-label={t('a11y.cancelItem', { name: item.fileName })} className="p-2 rounded-full text-slate-400 hover:text-slate-700 hover:bg-slate-100">
+                    <Icons.X className="w-4 h-4" />
+                  </button>
+                )}
+                {(item.status === 'error' || item.status === 'cancelled') && (
+                  <button onClick={() => queueRef.current?.retry(item.id)} aria-label={t('a11y.retryItem', { name: item.fileName })} className="p-2 rounded-full text-slate-400 hover:text-emerald-600 hover:bg-emerald-50">
+                    <Icons.Refresh className="w-4 h-4" />
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        {/* Summary by Category */}
+        {!isRunning && completed.length > 0 && (
+          <div className="animate-in fade-in duration-500">
+            <h3 className="text-xs font-bold uppercase tracking-widest text-slate-500 mb-3">{t('batch.summary')}</h3>
+            <table className="w-full text-sm mb-6">
+              <tbody className="divide-y divide-slate-100">
+                {CATEGORY_ORDER.map(({ category, color }) => {
+                  const inCategory = completed.filter(item => item.result!.category === category);
+                  if (inCategory.length === 0) return null;
+                  return (
+                    <tr key={category}>
+                      <td className="py-3 pe-4 align-top whitespace-nowrap">
+                        <span className="inline-flex items-center gap-2 font-bold text-slate-800">
+                          <span className={`w-2.5 h-2.5 rounded-full ${color}`} />
+                          {t(`category.${category}` as MessageKey)}
+                        </span>
+                      </td>
+                      <td className="py-3 pe-4 align-top font-black text-slate-900">{inCategory.length}</td>
+                      <td className="py-3 align-top text-slate-600">
+                        {inCategory.map(item => item.result!.itemName).join(', ')}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <Button variant="secondary" onClick={handleExport} className="w-full">
+              {t('batch.exportCsv')}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
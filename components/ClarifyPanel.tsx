@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { Clarification } from '../types';
+import { MessageKey, createTranslator } from '../services/i18n';
+import { Icons } from './Icons';
+import { Button } from './Button';
+
+interface ClarifyPanelProps {
+  locale: string;
+  questions: string[];
+  isDark: boolean;
+  onSubmit: (clarifications: Clarification[]) => void;
+}
+
+const ANSWERS: Clarification['answer'][] = ['yes', 'no', 'unsure'];
+
+export const ClarifyPanel: React.FC<ClarifyPanelProps> = ({ locale, questions, isDark, onSubmit }) => {
+  const t = createTranslator(locale);
+  const [answers, setAnswers] = useState<Record<number, Clarification['answer']>>({});
+  const isComplete = questions.every((_, index) => answers[index]);
+
+  const handleSubmit = () => {
+    onSubmit(questions.map((question, index) => ({ question, answer: answers[index] })));
+  };
+
+  return (
+    <div className={`p-5 rounded-2xl border-2 border-dashed ${isDark ? 'bg-slate-800 border-amber-400/50' : 'bg-amber-50 border-amber-300'}`}>
+      <h4 className={`text-xs font-bold uppercase flex items-center gap-2 mb-1 ${isDark ? 'text-amber-300' : 'text-amber-700'}`}>
+        <Icons.Info className="w-4 h-4" />
+        {t('clarify.title')}
+      </h4>
+      <p className={`text-sm mb-4 ${isDark ? 'text-slate-300' : 'text-amber-900'}`}>
+        {t(questions.length === 1 ? 'clarify.introOne' : 'clarify.introOther')}
+      </p>
+
+      <div className="space-y-4">
+        {questions.map((question, index) => (
+          <div key={question}>
+            <p className={`font-semibold mb-2 ${isDark ? 'text-white' : 'text-slate-800'}`}>{question}</p>
+            <div className="flex gap-2">
+              {ANSWERS.map(answer => (
+                <button
+                  key={answer}
+                  onClick={() => setAnswers(prev => ({ ...prev, [index]: answer }))}
+                  aria-pressed={answers[index] === answer}
+                  className={`px-4 py-1.5 rounded-full text-sm font-bold border-2 transition-colors ${answers[index] === answer ? 'bg-amber-400 border-amber-400 text-slate-900' : isDark ? 'border-slate-600 text-slate-300 hover:border-amber-400' : 'border-amber-200 text-amber-800 hover:border-amber-400'}`}
+                >
+                  {t(`answer.${answer}` as MessageKey)}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <Button onClick={handleSubmit} disabled={!isComplete} variant="secondary" className="w-full mt-5">
+        <Icons.Refresh className="w-4 h-4 me-2" />
+        {t('clarify.recheck')}
+      </Button>
+    </div>
+  );
+};
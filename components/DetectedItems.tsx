@@ -0,0 +1,101 @@
+import React from 'react';
+import { DetectedItem, WasteCategory } from '../types';
+import { MessageKey, createTranslator } from '../services/i18n';
+
+const CATEGORY_STYLES: Record<WasteCategory, { box: string; dot: string; chip: string }> = {
+  [WasteCategory.RECYCLE]: { box: 'border-emerald-400 bg-emerald-400/10', dot: 'bg-emerald-500', chip: 'bg-emerald-50 text-emerald-800 border-emerald-200' },
+  [WasteCategory.COMPOST]: { box: 'border-amber-400 bg-amber-400/10', dot: 'bg-amber-400', chip: 'bg-amber-50 text-amber-800 border-amber-200' },
+  [WasteCategory.HAZARD]: { box: 'border-red-500 bg-red-500/10', dot: 'bg-red-600', chip: 'bg-rose-50 text-rose-800 border-rose-200' },
+  [WasteCategory.TRASH]: { box: 'border-slate-400 bg-slate-400/10', dot: 'bg-slate-500', chip: 'bg-slate-50 text-slate-700 border-slate-200' },
+  [WasteCategory.UNKNOWN]: { box: 'border-indigo-400 bg-indigo-400/10', dot: 'bg-indigo-400', chip: 'bg-indigo-50 text-indigo-800 border-indigo-200' },
+};
+
+interface AnnotatedImageProps {
+  src: string;
+  alt: string;
+  items: DetectedItem[];
+}
+
+// Image rendered at its natural aspect ratio so percentage-based boxes line up.
+export const AnnotatedImage: React.FC<AnnotatedImageProps> = ({ src, alt, items }) => (
+  <div className="relative w-full">
+    <img src={src} alt={alt} className="block w-full h-auto" />
+    {items.map((item, index) => {
+      const style = CATEGORY_STYLES[item.category];
+      return (
+        <div
+          key={index}
+          className={`absolute border-2 rounded-lg ${style.box}`}
+          style={{
+            left: `${item.boundingBox.x * 100}%`,
+            top: `${item.boundingBox.y * 100}%`,
+            width: `${item.boundingBox.width * 100}%`,
+            height: `${item.boundingBox.height * 100}%`,
+          }}
+        >
+          <span className={`absolute -top-3 -left-1 w-6 h-6 rounded-full ${style.dot} text-white text-xs font-black flex items-center justify-center shadow`}>
+            {index + 1}
+          </span>
+        </div>
+      );
+    })}
+  </div>
+);
+
+interface DetectedItemsListProps {
+  locale: string;
+  items: DetectedItem[];
+  isDark: boolean;
+}
+
+export const DetectedItemsList: React.FC<DetectedItemsListProps> = ({ locale, items, isDark }) => {
+  const t = createTranslator(locale);
+  const binCounts: Partial<Record<WasteCategory, number>> = {};
+  items.forEach(item => {
+    binCounts[item.category] = (binCounts[item.category] || 0) + 1;
+  });
+
+  return (
+    <div className="space-y-4">
+      {/* Per-bin Summary */}
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(binCounts) as WasteCategory[]).map(category => (
+          <span key={category} className={`inline-flex items-center gap-2 px-3 py-1 rounded-full border text-xs font-bold uppercase tracking-wider ${CATEGORY_STYLES[category].chip}`}>
+            <span className={`w-2 h-2 rounded-full ${CATEGORY_STYLES[category].dot}`} />
+            {t(`category.${category}` as MessageKey)} × {binCounts[category]}
+          </span>
+        ))}
+      </div>
+
+      <ol className="grid sm:grid-cols-2 gap-3">
+        {items.map((item, index) => {
+          const style = CATEGORY_STYLES[item.category];
+          return (
+            <li key={index} className={`flex items-start gap-3 p-3 rounded-xl border ${isDark ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-100'}`}>
+              <span className={`w-6 h-6 flex-shrink-0 rounded-full ${style.dot} text-white text-xs font-black flex items-center justify-center`}>
+                {index + 1}
+              </span>
+              <div className="min-w-0">
+                <p className={`font-bold leading-tight ${isDark ? 'text-white' : 'text-slate-800'}`}>
+                  {item.itemName}
+                  <span className="ms-2 text-xs font-semibold opacity-60">{Math.round(item.confidence * 100)}%</span>
+                </p>
+                <p className={`text-xs font-bold uppercase tracking-wider mt-1 ${isDark ? 'text-rose-200' : 'text-slate-500'}`}>{t(`category.${item.category}` as MessageKey)}</p>
+                {item.disposalAction && (
+                  <p className={`text-sm mt-1 ${isDark ? 'text-slate-300' : 'text-slate-600'}`}>{item.disposalAction}</p>
+                )}
+                {item.hazardDetails && (
+                  <ul className={`list-disc ps-4 mt-2 space-y-1 text-xs font-medium ${isDark ? 'text-rose-300' : 'text-rose-700'}`}>
+                    {item.hazardDetails.precautions.map((precaution, precautionIndex) => (
+                      <li key={precautionIndex}>{precaution}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
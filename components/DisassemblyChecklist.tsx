@@ -0,0 +1,47 @@
+import React, { useState } from 'react';
+import { PackagingComponent, RegionRulePack } from '../types';
+import { getBinForResult } from '../services/regionService';
+
+interface DisassemblyChecklistProps {
+  components: PackagingComponent[];
+  regionPack: RegionRulePack;
+  isDark: boolean;
+}
+
+export const DisassemblyChecklist: React.FC<DisassemblyChecklistProps> = ({ components, regionPack, isDark }) => {
+  const [checked, setChecked] = useState<Record<number, boolean>>({});
+
+  return (
+    <ol className="space-y-2">
+      {components.map((component, index) => {
+        const bin = getBinForResult(component, regionPack);
+        return (
+          <li key={index}>
+            <label className={`flex items-start gap-3 p-3 rounded-xl border cursor-pointer transition-colors ${isDark ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-100 hover:border-slate-200'}`}>
+              <input
+                type="checkbox"
+                checked={!!checked[index]}
+                onChange={(e) => setChecked(prev => ({ ...prev, [index]: e.target.checked }))}
+                className="mt-1 w-4 h-4 accent-emerald-600 flex-shrink-0"
+              />
+              <div className={`min-w-0 ${checked[index] ? 'opacity-50' : ''}`}>
+                <p className={`font-bold leading-tight ${isDark ? 'text-white' : 'text-slate-800'} ${checked[index] ? 'line-through' : ''}`}>
+                  {index + 1}. {component.separationStep}
+                </p>
+                <p className={`flex flex-wrap items-center gap-2 text-xs font-semibold mt-1 ${isDark ? 'text-slate-300' : 'text-slate-500'}`}>
+                  <span>{component.name} · {component.material}</span>
+                  {bin && (
+                    <span className="inline-flex items-center gap-1.5 font-bold uppercase tracking-wider">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: bin.color }} />
+                      {bin.label}
+                    </span>
+                  )}
+                </p>
+              </div>
+            </label>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { AnalysisResult, NearbyFacility } from '../types';
+import { MessageKey, createTranslator } from '../services/i18n';
+import { findNearestFacilities, formatDistance, getCurrentLocation, lookupPostcode } from '../services/facilityService';
+import { Icons } from './Icons';
+
+interface DropOffFinderProps {
+  locale: string;
+  result: AnalysisResult;
+  isDark: boolean;
+}
+
+export const DropOffFinder: React.FC<DropOffFinderProps> = ({ locale, result, isDark }) => {
+  const t = createTranslator(locale);
+  const [postcode, setPostcode] = useState('');
+  const [nearby, setNearby] = useState<NearbyFacility[] | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+  const [error, setError] = useState<{ key: MessageKey; postcode?: string } | null>(null);
+
+  const handleUseLocation = async () => {
+    setIsLocating(true);
+    setError(null);
+    try {
+      const origin = await getCurrentLocation();
+      setNearby(findNearestFacilities(result, origin));
+    } catch (err) {
+      console.error("Geolocation error:", err);
+      setError({ key: 'dropOff.locationError' });
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const handlePostcodeSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const origin = lookupPostcode(postcode);
+    if (!origin) {
+      setError({ key: 'dropOff.unknownPostcode', postcode: postcode.trim() });
+      setNearby(null);
+      return;
+    }
+    setError(null);
+    setNearby(findNearestFacilities(result, origin));
+  };
+
+  return (
+    <div className={`p-5 rounded-2xl border ${isDark ? 'bg-slate-800 border-slate-700' : 'bg-slate-50 border-slate-100'}`}>
+      <h4 className={`text-xs font-bold uppercase flex items-center gap-2 mb-3 ${isDark ? 'text-rose-200' : 'text-slate-600'}`}>
+        <Icons.MapPin className="w-4 h-4" />
+        {t('dropOff.title')}
+      </h4>
+
+      {/* Location Input */}
+      <div className="flex flex-col sm:flex-row gap-2">
+        <button
+          onClick={handleUseLocation}
+          disabled={isLocating}
+          className={`inline-flex items-center justify-center gap-2 px-4 py-2 rounded-xl text-sm font-bold border-2 transition-colors disabled:opacity-50 ${isDark ? 'border-slate-600 text-white hover:border-rose-400' : 'border-slate-200 text-slate-700 hover:border-emerald-500'}`}
+        >
+          {isLocating ? <Icons.Loader className="w-4 h-4 animate-spin" /> : <Icons.Locate className="w-4 h-4" />}
+          {t('dropOff.useLocation')}
+        </button>
+        <form onSubmit={handlePostcodeSubmit} className="flex flex-grow gap-2">
+          <input
+            type="text"
+            value={postcode}
+            onChange={(e) => setPostcode(e.target.value)}
+            placeholder={t('dropOff.postcodePlaceholder')}
+            aria-label={t('dropOff.postcodeLabel')}
+            className={`flex-grow min-w-0 px-4 py-2 rounded-xl border text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 ${isDark ? 'bg-slate-900 border-slate-600 text-white placeholder:text-slate-500' : 'bg-white border-slate-200'}`}
+          />
+          <button
+            type="submit"
+            disabled={!postcode.trim()}
+            className="px-4 py-2 rounded-xl text-sm font-bold bg-slate-900 text-white disabled:opacity-40"
+          >
+            {t('dropOff.find')}
+          </button>
+        </form>
+      </div>
+
+      {error && <p className="text-sm font-medium text-amber-500 mt-3">{t(error.key, { postcode: error.postcode ?? '' })}</p>}
+
+      {/* Nearest Facilities */}
+      {nearby && (
+        nearby.length === 0 ? (
+          <p className={`text-sm mt-3 ${isDark ? 'text-slate-300' : 'text-slate-600'}`}>{t('dropOff.none')}</p>
+        ) : (
+          <ol className="mt-4 space-y-3">
+            {nearby.map(({ facility, distanceKm }) => (
+              <li key={facility.id} className={`flex items-start justify-between gap-3 p-3 rounded-xl ${isDark ? 'bg-slate-900' : 'bg-white border border-slate-100'}`}>
+                <div className="min-w-0">
+                  <p className={`font-bold leading-tight ${isDark ? 'text-white' : 'text-slate-800'}`}>{facility.name}</p>
+                  <p className={`text-sm ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>{facility.address}</p>
+                  <p className={`flex items-center gap-1 text-xs font-semibold mt-1 ${isDark ? 'text-rose-200' : 'text-slate-500'}`}>
+                    <Icons.Clock className="w-3 h-3" />
+                    {facility.openingHours}
+                  </p>
+                </div>
+                <span className={`flex-shrink-0 text-sm font-black ${isDark ? 'text-white' : 'text-slate-800'}`}>
+                  {formatDistance(distanceKm)}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { AnalysisResult } from '../types';
+import { getBinForResult, getRegionPack } from '../services/regionService';
+import { saveFeedback } from '../services/feedbackService';
+import { MessageKey, createTranslator } from '../services/i18n';
+import { Icons } from './Icons';
+import { Button } from './Button';
+import { useDialogFocus } from './useDialogFocus';
+
+interface FeedbackDialogProps {
+  locale: string;
+  result: AnalysisResult;
+  imagePreview: string | null;
+  onClose: () => void;
+  onSubmitted: () => void;
+}
+
+export const FeedbackDialog: React.FC<FeedbackDialogProps> = ({ locale, result, imagePreview, onClose, onSubmitted }) => {
+  const t = createTranslator(locale);
+  const pack = getRegionPack(result.regionId);
+  const predictedBin = getBinForResult(result, pack);
+
+  const [selectedBinId, setSelectedBinId] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const dialogRef = useDialogFocus<HTMLDivElement>(onClose);
+
+  const handleSubmit = async () => {
+    const bin = pack.bins.find(candidate => candidate.id === selectedBinId);
+    if (!bin) return;
+
+    setIsSaving(true);
+    try {
+      await saveFeedback(result, imagePreview, {
+        correctCategory: bin.category,
+        correctBinId: bin.id,
+        note,
+      });
+      onSubmitted();
+    } catch (err) {
+      console.error("Feedback save error:", err);
+      setError('feedback.saveError');
+      setIsSaving(false);
+    }
+  };
+
+  // {bin} is left in the translated sentence so the bin name can be rendered in bold.
+  const [beforeBin, afterBin] = t('feedback.weSaid', { item: result.itemName }).split('{bin}');
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-300">
+      <div ref={dialogRef} role="dialog" aria-modal="true" aria-labelledby="feedback-title" className="w-full max-w-md bg-white rounded-3xl shadow-2xl p-6 sm:p-8 text-slate-900">
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <h3 id="feedback-title" className="text-2xl font-black tracking-tight">{t('result.wrongCategory')}</h3>
+            <p className="text-sm text-slate-500 font-medium mt-1">
+              {beforeBin}<strong>{predictedBin?.label || t(`category.${result.category}` as MessageKey)}</strong>{afterBin}
+            </p>
+          </div>
+          <button onClick={onClose} aria-label={t('a11y.close')} className="p-2 rounded-full text-slate-400 hover:bg-slate-100 hover:text-slate-700 transition-colors">
+            <Icons.X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 mb-6">
+          {pack.bins.map(bin => (
+            <button
+              key={bin.id}
+              onClick={() => setSelectedBinId(bin.id)}
+              disabled={bin.id === predictedBin?.id}
+              aria-pressed={selectedBinId === bin.id}
+              className={`flex items-center gap-2 px-3 py-3 rounded-xl border-2 text-sm font-bold text-start transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${selectedBinId === bin.id ? 'border-emerald-500 bg-emerald-50' : 'border-slate-100 hover:border-slate-300'}`}
+            >
+              <span aria-hidden="true" className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: bin.color }} />
+              {bin.label}
+            </button>
+          ))}
+        </div>
+
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          aria-label={t('a11y.note')}
+          placeholder={t('feedback.notePlaceholder')}
+          rows={3}
+          maxLength={500}
+          className="w-full px-4 py-3 rounded-xl border border-slate-200 text-sm mb-4 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+        />
+
+        {error && <p className="text-sm font-medium text-rose-600 mb-4">{t(error)}</p>}
+
+        <Button onClick={handleSubmit} disabled={!selectedBinId} isLoading={isSaving} className="w-full">
+          {t('feedback.submit')}
+        </Button>
+      </div>
+    </div>
+  );
+};
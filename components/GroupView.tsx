@@ -0,0 +1,223 @@
+import React, { useEffect, useState } from 'react';
+import { GroupSession, MemberTally, SharedScan, WasteCategory } from '../types';
+import { GroupRequestError, createGroup, getMemberTallies, joinGroup, leaveGroup, listSharedScans, loadGroupSession, syncScans } from '../services/groupService';
+import { MessageKey, createTranslator } from '../services/i18n';
+import { Icons } from './Icons';
+import { Button } from './Button';
+
+interface GroupViewProps {
+  locale: string;
+  onOpen: (scan: SharedScan) => void;
+  onClose: () => void;
+}
+
+const TALLY_COLUMNS: { category: WasteCategory; color: string }[] = [
+  { category: WasteCategory.RECYCLE, color: 'bg-emerald-500' },
+  { category: WasteCategory.COMPOST, color: 'bg-amber-400' },
+  { category: WasteCategory.HAZARD, color: 'bg-red-600' },
+  { category: WasteCategory.TRASH, color: 'bg-slate-500' },
+];
+
+// The server's messages are English, so only the status decides what the user sees.
+const errorMessage = (err: unknown): MessageKey =>
+  err instanceof GroupRequestError && err.status === 404 ? 'group.notFound' : 'group.syncError';
+
+const inputClass = "w-full px-4 py-3 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-emerald-500";
+
+export const GroupView: React.FC<GroupViewProps> = ({ locale, onOpen, onClose }) => {
+  const t = createTranslator(locale);
+  const [session, setSession] = useState<GroupSession | null>(loadGroupSession);
+  const [tallies, setTallies] = useState<MemberTally[]>([]);
+  const [scans, setScans] = useState<SharedScan[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<MessageKey | null>(null);
+
+  const [memberName, setMemberName] = useState('');
+  const [groupName, setGroupName] = useState('');
+  const [code, setCode] = useState('');
+
+  const refresh = async () => {
+    setIsSyncing(true);
+    setError(null);
+    try {
+      await syncScans();
+      const [nextTallies, nextScans] = await Promise.all([getMemberTallies(), listSharedScans()]);
+      setTallies(nextTallies);
+      setScans(nextScans);
+    } catch (err) {
+      console.error("Group sync error:", err);
+      setError(errorMessage(err));
+      // A revoked token clears the stored session
+      setSession(loadGroupSession());
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  useEffect(() => {
+    if (session) refresh();
+  }, [session?.token]);
+
+  const handleJoinOrCreate = async (mode: 'create' | 'join') => {
+    setError(null);
+    try {
+      setSession(mode === 'create'
+        ? await createGroup(groupName.trim(), memberName.trim())
+        : await joinGroup(code.trim(), memberName.trim()));
+    } catch (err) {
+      console.error("Group join error:", err);
+      setError(errorMessage(err));
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!window.confirm(t('group.leaveConfirm'))) return;
+    await leaveGroup();
+    setSession(null);
+    setTallies([]);
+    setScans([]);
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto animate-in fade-in slide-in-from-bottom-8 duration-700">
+      <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl shadow-slate-200/50 border border-slate-100 p-6 sm:p-8">
+
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-3xl font-black tracking-tight text-slate-900">{session ? session.group.name : t('group.title')}</h2>
+            <p className="text-slate-500 font-medium text-sm mt-1">
+              {session ? t('group.youAre', { name: session.member.name }) : t('group.subtitle')}
+            </p>
+          </div>
+          <Button variant="ghost" onClick={onClose} aria-label={t('a11y.close')}>
+            <Icons.X className="w-5 h-5" />
+          </Button>
+        </div>
+
+        {error && <p role="alert" className="text-sm font-medium text-rose-600 mb-4">{t(error)}</p>}
+
+        {!session ? (
+          /* Create or Join */
+          <div className="space-y-6">
+            <input
+              type="text"
+              value={memberName}
+              onChange={(e) => setMemberName(e.target.value)}
+              placeholder={t('group.yourName')}
+              aria-label={t('group.yourName')}
+              maxLength={40}
+              className={inputClass}
+            />
+            <div className="grid sm:grid-cols-2 gap-4">
+              <div className="p-5 rounded-2xl border border-slate-100 space-y-3">
+                <h3 className="text-xs font-bold uppercase tracking-widest text-slate-500">{t('group.start')}</h3>
+                <input type="text" value={groupName} onChange={(e) => setGroupName(e.target.value)} placeholder={t('group.namePlaceholder')} aria-label={t('group.nameLabel')} maxLength={40} className={inputClass} />
+                <Button onClick={() => handleJoinOrCreate('create')} disabled={!memberName.trim() || !groupName.trim()} className="w-full">
+                  {t('group.create')}
+                </Button>
+              </div>
+              <div className="p-5 rounded-2xl border border-slate-100 space-y-3">
+                <h3 className="text-xs font-bold uppercase tracking-widest text-slate-500">{t('group.joinWithCode')}</h3>
+                <input type="text" value={code} onChange={(e) => setCode(e.target.value)} placeholder={t('group.codePlaceholder')} aria-label={t('group.code')} maxLength={12} className={`${inputClass} uppercase tracking-widest`} />
+                <Button onClick={() => handleJoinOrCreate('join')} disabled={!memberName.trim() || !code.trim()} variant="secondary" className="w-full">
+                  {t('group.join')}
+                </Button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            {/* Group Code */}
+            <div className="flex flex-wrap items-center justify-between gap-3 p-4 rounded-2xl bg-emerald-50 border border-emerald-100">
+              <div>
+                <span className="block text-[10px] font-bold uppercase tracking-widest text-emerald-700">{t('group.code')}</span>
+                <span className="text-2xl font-black tracking-[0.3em] text-emerald-900">{session.group.code}</span>
+              </div>
+              <Button variant="outline" onClick={() => navigator.clipboard?.writeText(session.group.code)}>
+                <Icons.Copy className="w-4 h-4 me-2" />
+                {t('group.copy')}
+              </Button>
+            </div>
+
+            {/* Member Tallies */}
+            <div>
+              <h3 className="text-xs font-bold uppercase tracking-widest text-slate-500 mb-3">{t('group.tallies')}</h3>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-start text-slate-500">
+                      <th className="py-2 text-start font-semibold">{t('group.member')}</th>
+                      {TALLY_COLUMNS.map(column => (
+                        <th key={column.category} className="py-2 font-semibold">
+                          <span className="inline-flex items-center gap-1.5">
+                            <span className={`w-2 h-2 rounded-full ${column.color}`} />
+                            {t(`category.${column.category}` as MessageKey)}
+                          </span>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {tallies.map(({ member, counts }) => (
+                      <tr key={member.id}>
+                        <td className="py-2 font-bold text-slate-800">
+                          {member.name}{member.id === session.member.id && <span className="ms-2 text-xs font-semibold text-slate-400">{t('group.you')}</span>}
+                        </td>
+                        {TALLY_COLUMNS.map(column => (
+                          <td key={column.category} className="py-2 text-center font-semibold text-slate-700">{counts[column.category]}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {/* Shared History */}
+            <div>
+              <h3 className="text-xs font-bold uppercase tracking-widest text-slate-500 mb-3">{t('group.sharedHistory')}</h3>
+              {scans.length === 0 ? (
+                <p className="text-center text-slate-400 py-8 font-medium">
+                  {isSyncing ? t('group.syncing') : t('group.empty')}
+                </p>
+              ) : (
+                <ul className="divide-y divide-slate-100">
+                  {scans.map(scan => (
+                    <li key={`${scan.memberId}-${scan.id}`}>
+                      <button onClick={() => onOpen(scan)} className="flex items-center gap-4 py-3 w-full min-w-0 text-start group">
+                        <div className="w-12 h-12 rounded-xl bg-slate-100 overflow-hidden flex-shrink-0 flex items-center justify-center text-slate-400">
+                          {scan.thumbnail ? (
+                            <img src={scan.thumbnail} alt="" className="w-full h-full object-cover" />
+                          ) : (
+                            <Icons.Camera className="w-5 h-5" />
+                          )}
+                        </div>
+                        <div className="min-w-0">
+                          <p className="font-bold text-slate-800 truncate group-hover:text-emerald-600 transition-colors">{scan.result.itemName}</p>
+                          <p className="text-xs font-semibold text-slate-400 uppercase tracking-wider">
+                            {t(`category.${scan.result.category}` as MessageKey)} • {scan.memberName} • {new Date(scan.timestamp).toLocaleString(locale)}
+                          </p>
+                        </div>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="pt-6 border-t border-slate-100 flex flex-wrap justify-end gap-3">
+              <Button variant="secondary" onClick={refresh} isLoading={isSyncing}>
+                <Icons.Refresh className="w-4 h-4 me-2" />
+                {t('group.syncNow')}
+              </Button>
+              <Button variant="outline" onClick={handleLeave} className="hover:border-rose-500 hover:text-rose-600">
+                {t('group.leave')}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
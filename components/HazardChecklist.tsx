@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { HazardDetails } from '../types';
+import { MessageKey, createTranslator } from '../services/i18n';
+import { Icons } from './Icons';
+
+interface HazardChecklistProps {
+  locale: string;
+  details: HazardDetails;
+}
+
+export const HazardChecklist: React.FC<HazardChecklistProps> = ({ locale, details }) => {
+  const t = createTranslator(locale);
+  const [checked, setChecked] = useState<Record<number, boolean>>({});
+
+  return (
+    <div className="rounded-2xl border border-rose-500/40 bg-rose-950/40 overflow-hidden">
+      {/* Hazard Class */}
+      <div className="flex items-center justify-between gap-3 px-5 py-3 border-b border-rose-500/30">
+        <span className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-rose-300">
+          <Icons.Hazard className="w-4 h-4" />
+          {t(`hazardClass.${details.hazardClass}` as MessageKey)}
+          {details.batteryChemistry && ` · ${t(`battery.${details.batteryChemistry}` as MessageKey)}`}
+        </span>
+        {details.doNotBin && (
+          <span className="px-3 py-1 rounded-full bg-red-600 text-white text-[10px] font-black uppercase tracking-widest">
+            {t('hazard.doNotBin')}
+          </span>
+        )}
+      </div>
+
+      {/* Precautions */}
+      <ul className="px-5 py-4 space-y-3">
+        {details.precautions.map((precaution, index) => (
+          <li key={index}>
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!checked[index]}
+                onChange={(e) => setChecked(prev => ({ ...prev, [index]: e.target.checked }))}
+                className="mt-1 w-4 h-4 accent-rose-500 flex-shrink-0"
+              />
+              <span className={`text-sm font-medium ${checked[index] ? 'text-rose-300/60 line-through' : 'text-white'}`}>
+                {precaution}
+              </span>
+            </label>
+          </li>
+        ))}
+      </ul>
+
+      {/* Storage */}
+      <div className="px-5 py-3 bg-slate-900/60 text-sm text-rose-100">
+        <span className="block text-[10px] font-bold uppercase tracking-widest text-rose-300 mb-1">{t('hazard.untilDropOff')}</span>
+        {details.storageAdvice}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,176 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ScanHistoryEntry, WasteCategory } from '../types';
+import { clearScans, deleteScan, listScans } from '../services/historyService';
+import { exportFeedback } from '../services/feedbackService';
+import { MessageKey, createTranslator } from '../services/i18n';
+import { Icons } from './Icons';
+import { Button } from './Button';
+
+interface HistoryViewProps {
+  locale: string;
+  onOpen: (entry: ScanHistoryEntry) => void;
+  onClose: () => void;
+}
+
+const CATEGORY_FILTERS: { value: WasteCategory | 'ALL'; label: MessageKey; color: string }[] = [
+  { value: 'ALL', label: 'history.all', color: 'bg-slate-800' },
+  { value: WasteCategory.RECYCLE, label: 'category.RECYCLE', color: 'bg-emerald-500' },
+  { value: WasteCategory.COMPOST, label: 'category.COMPOST', color: 'bg-amber-400' },
+  { value: WasteCategory.HAZARD, label: 'category.HAZARD', color: 'bg-red-600' },
+  { value: WasteCategory.TRASH, label: 'category.TRASH', color: 'bg-slate-500' },
+  { value: WasteCategory.UNKNOWN, label: 'category.UNKNOWN', color: 'bg-indigo-400' },
+];
+
+// <input type="date"> values are local-midnight dates in YYYY-MM-DD form.
+const startOfDay = (value: string) => new Date(`${value}T00:00:00`).getTime();
+const endOfDay = (value: string) => new Date(`${value}T23:59:59.999`).getTime();
+
+export const HistoryView: React.FC<HistoryViewProps> = ({ locale, onOpen, onClose }) => {
+  const t = createTranslator(locale);
+  const [entries, setEntries] = useState<ScanHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [category, setCategory] = useState<WasteCategory | 'ALL'>('ALL');
+  const [query, setQuery] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  useEffect(() => {
+    listScans()
+      .then(setEntries)
+      .catch(err => console.error("History load error:", err))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const filtered = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return entries.filter(entry => {
+      if (category !== 'ALL' && entry.result.category !== category) return false;
+      if (needle && !entry.result.itemName.toLowerCase().includes(needle)) return false;
+      if (fromDate && entry.timestamp < startOfDay(fromDate)) return false;
+      if (toDate && entry.timestamp > endOfDay(toDate)) return false;
+      return true;
+    });
+  }, [entries, category, query, fromDate, toDate]);
+
+  const handleDelete = async (id: string) => {
+    await deleteScan(id);
+    setEntries(prev => prev.filter(entry => entry.id !== id));
+  };
+
+  const handleExportCorrections = async () => {
+    try {
+      const count = await exportFeedback();
+      if (count === 0) {
+        window.alert(t('history.noCorrections'));
+      }
+    } catch (err) {
+      console.error("Feedback export error:", err);
+    }
+  };
+
+  const handleClearAll = async () => {
+    if (!window.confirm(t('history.clearConfirm'))) return;
+    await clearScans();
+    setEntries([]);
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto animate-in fade-in slide-in-from-bottom-8 duration-700">
+      <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl shadow-slate-200/50 border border-slate-100 p-6 sm:p-8">
+
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-3xl font-black tracking-tight text-slate-900">{t('history.title')}</h2>
+            <p className="text-slate-500 font-medium text-sm mt-1">{t('history.subtitle')}</p>
+          </div>
+          <Button variant="ghost" onClick={onClose} aria-label={t('a11y.close')}>
+            <Icons.X className="w-5 h-5" />
+          </Button>
+        </div>
+
+        {/* Filters */}
+        <div className="space-y-4 mb-6">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('history.searchPlaceholder')}
+            className="w-full px-4 py-3 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+          <div className="flex flex-wrap gap-2">
+            {CATEGORY_FILTERS.map(filter => (
+              <button
+                key={filter.value}
+                onClick={() => setCategory(filter.value)}
+                className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-bold uppercase tracking-wider border transition-colors ${category === filter.value ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-200 hover:border-slate-400'}`}
+              >
+                <span className={`w-2 h-2 rounded-full ${filter.color}`} />
+                {t(filter.label)}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-3 text-sm font-medium text-slate-600">
+            <label className="flex items-center gap-2">
+              {t('history.from')}
+              <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="px-3 py-2 rounded-lg border border-slate-200" />
+            </label>
+            <label className="flex items-center gap-2">
+              {t('history.to')}
+              <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className="px-3 py-2 rounded-lg border border-slate-200" />
+            </label>
+          </div>
+        </div>
+
+        {/* Entries */}
+        {isLoading ? (
+          <p className="text-center text-slate-400 py-12 font-medium">{t('history.loading')}</p>
+        ) : filtered.length === 0 ? (
+          <p className="text-center text-slate-400 py-12 font-medium">
+            {t(entries.length === 0 ? 'history.empty' : 'history.noMatches')}
+          </p>
+        ) : (
+          <ul className="divide-y divide-slate-100">
+            {filtered.map(entry => (
+              <li key={entry.id} className="flex items-center gap-4 py-3">
+                <button onClick={() => onOpen(entry)} className="flex items-center gap-4 flex-grow min-w-0 text-start group">
+                  <div className="w-14 h-14 rounded-xl bg-slate-100 overflow-hidden flex-shrink-0 flex items-center justify-center text-slate-400">
+                    {entry.thumbnail ? (
+                      <img src={entry.thumbnail} alt="" className="w-full h-full object-cover" />
+                    ) : (
+                      <Icons.Camera className="w-6 h-6" />
+                    )}
+                  </div>
+                  <div className="min-w-0">
+                    <p className="font-bold text-slate-800 truncate group-hover:text-emerald-600 transition-colors">{entry.result.itemName}</p>
+                    <p className="text-xs font-semibold text-slate-400 uppercase tracking-wider">
+                      {t(`category.${entry.result.category}` as MessageKey)} • {new Date(entry.timestamp).toLocaleString(locale)}
+                    </p>
+                  </div>
+                </button>
+                <button
+                  onClick={() => handleDelete(entry.id)}
+                  aria-label={t('a11y.deleteItem', { name: entry.result.itemName })}
+                  className="p-2 rounded-full text-slate-400 hover:text-rose-600 hover:bg-rose-50 transition-colors"
+                >
+                  <Icons.Trash className="w-5 h-5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="mt-6 pt-6 border-t border-slate-100 flex flex-wrap justify-end gap-3">
+          <Button variant="secondary" onClick={handleExportCorrections}>
+            {t('history.exportCorrections')}
+          </Button>
+          {entries.length > 0 && (
+            <Button variant="outline" onClick={handleClearAll} className="hover:border-rose-500 hover:text-rose-600">
+              {t('history.clear')}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
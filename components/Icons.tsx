@@ -17,7 +17,22 @@ import {
   ArrowRight,
   X,
   Share2,
-  SwitchCamera
+  SwitchCamera,
+  History,
+  Crop,
+  Radio,
+  MapPin,
+  LocateFixed,
+  Clock,
+  CloudOff,
+  ChartColumn,
+  Users,
+  Copy,
+  Search,
+  ScanBarcode,
+  PackageOpen,
+  Accessibility,
+  Volume2
 } from 'lucide-react';
 
 export const Icons = {
@@ -38,5 +53,20 @@ export const Icons = {
   ArrowRight,
   X,
   Share: Share2,
-  SwitchCamera
+  SwitchCamera,
+  History,
+  Crop,
+  Live: Radio,
+  MapPin,
+  Locate: LocateFixed,
+  Clock,
+  CloudOff,
+  Impact: ChartColumn,
+  Group: Users,
+  Copy,
+  Search,
+  Barcode: ScanBarcode,
+  Disassemble: PackageOpen,
+  Accessibility,
+  Speak: Volume2
 };
\ No newline at end of file
@@ -0,0 +1,177 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ScanHistoryEntry, WasteCategory } from '../types';
+import { listScans } from '../services/historyService';
+import { IMPACT_FACTORS, buildImpactSummary, sumCounts } from '../services/impactService';
+import { MessageKey, createTranslator } from '../services/i18n';
+import { Icons } from './Icons';
+import { Button } from './Button';
+
+interface ImpactDashboardProps {
+  locale: string;
+  onClose: () => void;
+}
+
+// Stack order, bottom to top
+const CHART_CATEGORIES: { category: WasteCategory; color: string }[] = [
+  { category: WasteCategory.RECYCLE, color: 'bg-emerald-500' },
+  { category: WasteCategory.COMPOST, color: 'bg-amber-400' },
+  { category: WasteCategory.HAZARD, color: 'bg-red-600' },
+  { category: WasteCategory.TRASH, color: 'bg-slate-500' },
+  { category: WasteCategory.UNKNOWN, color: 'bg-indigo-400' },
+];
+
+const DONUT_RADIUS = 40;
+const DONUT_CIRCUMFERENCE = 2 * Math.PI * DONUT_RADIUS;
+
+const formatWeek = (weekStart: number, locale: string) =>
+  new Date(weekStart).toLocaleDateString(locale, { day: 'numeric', month: 'short' });
+
+const formatKg = (kg: number) => (kg < 1 ? `${Math.round(kg * 1000)} g` : `${kg.toFixed(1)} kg`);
+
+export const ImpactDashboard: React.FC<ImpactDashboardProps> = ({ locale, onClose }) => {
+  const t = createTranslator(locale);
+  const [entries, setEntries] = useState<ScanHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    listScans()
+      .then(setEntries)
+      .catch(err => console.error("Impact load error:", err))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const summary = useMemo(() => buildImpactSummary(entries), [entries]);
+  const maxWeekly = Math.max(1, ...summary.weekly.map(week => sumCounts(week.counts)));
+  const diversionPercent = summary.diversionRate === null ? null : Math.round(summary.diversionRate * 100);
+
+  const days = (count: number) => t(count === 1 ? 'impact.daysOne' : 'impact.daysOther', { count });
+
+  const stats: { label: MessageKey; value: string }[] = [
+    { label: 'impact.itemsSorted', value: String(summary.totalItems) },
+    { label: 'impact.hazardsHandled', value: String(summary.hazardItems) },
+    { label: 'impact.currentStreak', value: days(summary.currentStreakDays) },
+    { label: 'impact.longestStreak', value: days(summary.longestStreakDays) },
+  ];
+
+  return (
+    <div className="w-full max-w-4xl mx-auto animate-in fade-in slide-in-from-bottom-8 duration-700">
+      <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-xl shadow-slate-200/50 border border-slate-100 p-6 sm:p-8">
+
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-3xl font-black tracking-tight text-slate-900">{t('impact.title')}</h2>
+            <p className="text-slate-500 font-medium text-sm mt-1">{t('impact.subtitle')}</p>
+          </div>
+          <Button variant="ghost" onClick={onClose} aria-label={t('a11y.close')}>
+            <Icons.X className="w-5 h-5" />
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-center text-slate-400 py-12 font-medium">{t('impact.loading')}</p>
+        ) : entries.length === 0 ? (
+          <p className="text-center text-slate-400 py-12 font-medium">{t('impact.empty')}</p>
+        ) : (
+          <div className="space-y-8">
+
+            {/* Headline Stats */}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {stats.map(stat => (
+                <div key={stat.label} className="p-4 rounded-2xl bg-slate-50 border border-slate-100">
+                  <div className="text-2xl font-black text-slate-900">{stat.value}</div>
+                  <div className="text-[10px] font-bold uppercase tracking-wider text-slate-500 mt-1">{t(stat.label)}</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid md:grid-cols-3 gap-6">
+              {/* Diversion Donut */}
+              <div className="p-5 rounded-2xl border border-slate-100 flex flex-col items-center text-center">
+                <h3 className="text-xs font-bold uppercase tracking-widest text-slate-500 mb-4">{t('impact.diverted')}</h3>
+                <div className="relative w-32 h-32 mb-3">
+                  <svg viewBox="0 0 100 100" className="w-full h-full -rotate-90">
+                    <circle cx="50" cy="50" r={DONUT_RADIUS} fill="none" strokeWidth="12" className="stroke-slate-200" />
+                    {diversionPercent !== null && (
+                      <circle
+                        cx="50"
+                        cy="50"
+                        r={DONUT_RADIUS}
+                        fill="none"
+                        strokeWidth="12"
+                        strokeLinecap="round"
+                        className="stroke-emerald-500"
+                        strokeDasharray={`${(diversionPercent / 100) * DONUT_CIRCUMFERENCE} ${DONUT_CIRCUMFERENCE}`}
+                      />
+                    )}
+                  </svg>
+                  <p className="absolute inset-0 flex items-center justify-center text-3xl font-black text-slate-900">
+                    {diversionPercent === null ? '–' : `${diversionPercent}%`}
+                  </p>
+                </div>
+                <p className="text-xs text-slate-500 font-medium">{t('impact.divertedNote')}</p>
+              </div>
+
+              {/* Estimates */}
+              <div className="md:col-span-2 p-5 rounded-2xl bg-emerald-50 border border-emerald-100">
+                <h3 className="text-xs font-bold uppercase tracking-widest text-emerald-700 mb-4 flex items-center gap-2">
+                  <Icons.Compost className="w-4 h-4" />
+                  {t('impact.estimates')}
+                </h3>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <div className="text-3xl font-black text-emerald-900">{formatKg(summary.landfillMassAvoidedKg)}</div>
+                    <div className="text-sm font-medium text-emerald-700">{t('impact.landfillAvoided')}</div>
+                  </div>
+                  <div>
+                    <div className="text-3xl font-black text-emerald-900">{formatKg(summary.co2eAvoidedKg)}</div>
+                    <div className="text-sm font-medium text-emerald-700">{t('impact.co2eAvoided')}</div>
+                  </div>
+                </div>
+                <p className="text-xs text-emerald-700/80 mt-4">
+                  {t('impact.factorNote', { version: IMPACT_FACTORS.version })} {IMPACT_FACTORS.source}
+                </p>
+              </div>
+            </div>
+
+            {/* Weekly Chart */}
+            <div>
+              <h3 className="text-xs font-bold uppercase tracking-widest text-slate-500 mb-4">{t('impact.perWeek')}</h3>
+              <div className="flex items-end gap-2 sm:gap-4 h-48 border-b border-slate-200">
+                {summary.weekly.map(week => (
+                  <div key={week.weekStart} className="flex-1 h-full flex flex-col justify-end">
+                    <div className="flex flex-col-reverse rounded-t-lg overflow-hidden">
+                      {CHART_CATEGORIES.map(({ category, color }) => week.counts[category] > 0 && (
+                        <div
+                          key={category}
+                          className={color}
+                          style={{ height: `${(week.counts[category] / maxWeekly) * 12}rem` }}
+                          title={`${week.counts[category]} ${t(`category.${category}` as MessageKey)}`}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-2 sm:gap-4 mt-2">
+                {summary.weekly.map(week => (
+                  <span key={week.weekStart} className="flex-1 text-center text-[10px] font-semibold text-slate-400">
+                    {formatWeek(week.weekStart, locale)}
+                  </span>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-4 mt-4">
+                {CHART_CATEGORIES.map(({ category, color }) => (
+                  <span key={category} className="inline-flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-slate-600">
+                    <span className={`w-2.5 h-2.5 rounded-full ${color}`} />
+                    {t(`category.${category}` as MessageKey)} · {summary.categoryTotals[category]}
+                  </span>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
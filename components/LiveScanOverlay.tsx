@@ -0,0 +1,139 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AnalysisResult, RegionRulePack, WasteCategory } from '../types';
+import { captureFrame, frameDifference, sampleFrame } from '../services/liveScan';
+import { getBinForResult } from '../services/regionService';
+import { MessageKey, createTranslator } from '../services/i18n';
+
+interface LiveScanOverlayProps {
+  locale: string;
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  regionPack: RegionRulePack;
+  minIntervalMs: number;
+  classify: (frameDataUrl: string) => Promise<AnalysisResult>;
+  onResult: (result: AnalysisResult, frameDataUrl: string) => void;
+}
+
+const SAMPLE_INTERVAL_MS = 250;
+// Mean luminance difference (0–255) below which consecutive frames count as steady.
+const STABLE_THRESHOLD = 6;
+const STABLE_SAMPLES = 3;
+// A steady frame must differ this much from the last classified one, so an item
+// left in front of the camera isn't counted twice.
+const CHANGE_THRESHOLD = 18;
+
+type LiveStatus = 'searching' | 'steady' | 'classifying';
+
+const STATUS_LABELS: Record<LiveStatus, MessageKey> = {
+  searching: 'live.searching',
+  steady: 'live.steady',
+  classifying: 'live.classifying',
+};
+
+export const LiveScanOverlay: React.FC<LiveScanOverlayProps> = ({ locale, videoRef, regionPack, minIntervalMs, classify, onResult }) => {
+  const t = createTranslator(locale);
+  const [status, setStatus] = useState<LiveStatus>('searching');
+  const [latest, setLatest] = useState<AnalysisResult | null>(null);
+  const [tally, setTally] = useState<Record<string, number>>({});
+
+  // Kept in refs so the sampling loop doesn't restart on every render.
+  const classifyRef = useRef(classify);
+  const onResultRef = useRef(onResult);
+  classifyRef.current = classify;
+  onResultRef.current = onResult;
+
+  useEffect(() => {
+    const sampleCanvas = document.createElement('canvas');
+    let previous: Uint8ClampedArray | null = null;
+    let lastClassified: Uint8ClampedArray | null = null;
+    let lastClassifiedAt = 0;
+    let steadyCount = 0;
+    let inFlight = false;
+    let cancelled = false;
+
+    const tick = async () => {
+      const video = videoRef.current;
+      if (!video || inFlight) return;
+
+      const sample = sampleFrame(video, sampleCanvas);
+      if (!sample) return;
+
+      const isSteady = previous !== null && frameDifference(sample, previous) < STABLE_THRESHOLD;
+      previous = sample;
+      steadyCount = isSteady ? steadyCount + 1 : 0;
+
+      const isNewScene = !lastClassified || frameDifference(sample, lastClassified) > CHANGE_THRESHOLD;
+      const isThrottled = Date.now() - lastClassifiedAt < minIntervalMs;
+
+      if (steadyCount < STABLE_SAMPLES || !isNewScene) {
+        setStatus(isSteady && isNewScene ? 'steady' : 'searching');
+        return;
+      }
+      if (isThrottled) return;
+
+      const frame = captureFrame(video);
+      if (!frame) return;
+
+      inFlight = true;
+      setStatus('classifying');
+      try {
+        const result = await classifyRef.current(frame);
+        if (cancelled) return;
+        lastClassified = sample;
+        lastClassifiedAt = Date.now();
+        setLatest(result);
+        const bin = getBinForResult(result, regionPack);
+        const key = bin?.id || result.category;
+        setTally(prev => ({ ...prev, [key]: (prev[key] || 0) + 1 }));
+        onResultRef.current(result, frame);
+      } catch (err) {
+        console.error("Live scan error:", err);
+        lastClassifiedAt = Date.now();
+      } finally {
+        inFlight = false;
+        steadyCount = 0;
+        if (!cancelled) setStatus('searching');
+      }
+    };
+
+    const interval = window.setInterval(tick, SAMPLE_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(interval);
+    };
+  }, [videoRef, regionPack, minIntervalMs]);
+
+  const latestBin = latest ? getBinForResult(latest, regionPack) : undefined;
+
+  return (
+    <>
+      {/* Category Badge over the Reticle */}
+      <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+        <div className="mt-80 flex flex-col items-center gap-2" aria-live="polite">
+          {latest && (
+            <div
+              key={`${latest.itemName}-${latest.confidence}`}
+              className={`px-5 py-2 rounded-full text-white font-black uppercase tracking-wider shadow-xl animate-in zoom-in duration-300 ${latest.category === WasteCategory.HAZARD ? 'ring-4 ring-red-500/50' : ''}`}
+              style={{ backgroundColor: latestBin?.color || '#64748b' }}
+            >
+              {latestBin?.label || t(`category.${latest.category}` as MessageKey)} · {latest.itemName}
+            </div>
+          )}
+          <p className="text-white/80 font-medium text-xs bg-black/40 px-3 py-1 rounded-full backdrop-blur-sm">
+            {t(STATUS_LABELS[status])}
+          </p>
+        </div>
+      </div>
+
+      {/* Rolling Tally per Bin */}
+      <div className="absolute top-6 left-6 z-20 flex flex-col gap-2 pointer-events-none">
+        {regionPack.bins.map(bin => (
+          <div key={bin.id} className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-black/40 backdrop-blur-md text-white text-xs font-bold">
+            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: bin.color }} />
+            <span className="uppercase tracking-wider">{bin.label}</span>
+            <span className="ms-auto ps-2 font-black">{tally[bin.id] || 0}</span>
+          </div>
+        ))}
+      </div>
+    </>
+  );
+};
@@ -1,15 +1,45 @@
-import React from 'react';
-import { AnalysisResult, WasteCategory } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { AnalysisResult, Clarification, WasteCategory } from '../types';
 import { Icons } from './Icons';
 import { Button } from './Button';
+import { AnnotatedImage, DetectedItemsList } from './DetectedItems';
+import { FeedbackDialog } from './FeedbackDialog';
+import { ClarifyPanel } from './ClarifyPanel';
+import { HazardChecklist } from './HazardChecklist';
+import { DisassemblyChecklist } from './DisassemblyChecklist';
+import { DropOffFinder } from './DropOffFinder';
+import { getClarifyingQuestions, isUncertain } from '../services/clarificationService';
+import { hasMatchingFacilities } from '../services/facilityService';
+import { describeResult, isSpeechSupported, speak } from '../services/accessibilityService';
+import { MessageKey, createTranslator } from '../services/i18n';
+import { DEFAULT_REGION_ID, getBinForResult, getRegionPack } from '../services/regionService';
 
 interface ResultCardProps {
   result: AnalysisResult;
   imagePreview: string | null;
   onReset: () => void;
+  onClarify?: (clarifications: Clarification[]) => void;
+  onReanalyze?: () => void; // Offered on cached results to force a fresh classification
+  locale: string;
+  isStreaming?: boolean; // Fields are still arriving; onReset then cancels the request
 }
 
-export const ResultCard: React.FC<ResultCardProps> = ({ result, imagePreview, onReset }) => {
+// Stand-in for a text field that hasn't streamed in yet
+const StreamingPlaceholder: React.FC<{ isDark: boolean }> = ({ isDark }) => (
+  <span className={`block h-4 w-3/4 rounded animate-pulse ${isDark ? 'bg-slate-700' : 'bg-slate-200'}`} />
+);
+
+export const ResultCard: React.FC<ResultCardProps> = ({ result, imagePreview, onReset, onClarify, onReanalyze, locale, isStreaming = false }) => {
+  const [isFeedbackOpen, setIsFeedbackOpen] = useState(false);
+  const [isFeedbackSent, setIsFeedbackSent] = useState(false);
+  const t = createTranslator(locale);
+  const headingRef = useRef<HTMLHeadingElement>(null);
+
+  // Screen readers start at the item name when the card appears
+  useEffect(() => {
+    headingRef.current?.focus();
+  }, []);
+
   const getTheme = (category: WasteCategory) => {
     switch (category) {
       case WasteCategory.RECYCLE:
@@ -21,7 +51,7 @@ export const ResultCard: React.FC<ResultCardProps> = ({ result, imagePreview, on
           border: 'border-emerald-200',
           shadow: 'shadow-emerald-300/50',
           icon: Icons.Recycle,
-          label: 'Recycle',
+          label: t('category.RECYCLE'),
           isDark: false
         };
       case WasteCategory.COMPOST:
@@ -33,7 +63,7 @@ export const ResultCard: React.FC<ResultCardProps> = ({ result, imagePreview, on
           border: 'border-amber-200',
           shadow: 'shadow-amber-300/50',
           icon: Icons.Compost,
-          label: 'Compost',
+          label: t('category.COMPOST'),
           isDark: false
         };
       case WasteCategory.HAZARD:
@@ -46,9 +76,22 @@ export const ResultCard: React.FC<ResultCardProps> = ({ result, imagePreview, on
           border: 'border-rose-500',
           shadow: 'shadow-rose-900/50',
           icon: Icons.Zap, // Changed icon to Zap for more impact
-          label: 'HAZARD ALERT',
+          label: t('result.hazardAlert'),
           isDark: true
         };
+      case WasteCategory.UNKNOWN:
+        // Model output could not be mapped to a bin; don't pretend it's Trash
+        return {
+          gradient: 'from-indigo-400 to-slate-500',
+          bgLight: 'bg-indigo-50',
+          text: 'text-slate-800',
+          subText: 'text-indigo-700',
+          border: 'border-indigo-200',
+          shadow: 'shadow-indigo-300/50',
+          icon: Icons.Info,
+          label: t('category.UNKNOWN'),
+          isDark: false
+        };
       case WasteCategory.TRASH:
       default:
         return {
@@ -59,7 +102,7 @@ export const ResultCard: React.FC<ResultCardProps> = ({ result, imagePreview, on
           border: 'border-slate-200',
           shadow: 'shadow-slate-300/50',
           icon: Icons.Trash,
-          label: 'Trash',
+          label: t('category.TRASH'),
           isDark: false
         };
     }
@@ -69,21 +112,31 @@ export const ResultCard: React.FC<ResultCardProps> = ({ result, imagePreview, on
     if (navigator.share) {
       try {
         await navigator.share({
-          title: 'ECO SORT Result',
-          text: `I just used ECO SORT to classify my waste! It's a ${result.itemName} and belongs in ${result.category}.`,
+          title: t('result.shareTitle'),
+          text: t('result.shareText', { item: result.itemName, category: t(`category.${result.category}` as MessageKey) }),
           url: window.location.href
         });
       } catch (err) {
         console.log('Error sharing:', err);
       }
     } else {
-      alert("Sharing is not supported on this device/browser.");
+      alert(t('result.shareUnsupported'));
     }
   };
 
   const theme = getTheme(result.category);
   const Icon = theme.icon;
   const confidencePercent = Math.round(result.confidence * 100);
+  const items = result.items || [];
+  const isMultiItem = items.length > 0;
+  const uncertain = !isStreaming && isUncertain(result);
+  // Only ask once; a re-classified result carries the answers it was given.
+  const showClarify = uncertain && !!onClarify && !result.clarifications?.length;
+  const regionPack = getRegionPack(result.regionId);
+  // Generic results keep the built-in labels; regional ones show the local bin.
+  const regionBin = result.regionId && result.regionId !== DEFAULT_REGION_ID
+    ? getBinForResult(result, regionPack)
+    : undefined;
 
   return (
     <div className="w-full max-w-5xl mx-auto animate-in fade-in slide-in-from-bottom-8 duration-700">
@@ -95,20 +148,26 @@ export const ResultCard: React.FC<ResultCardProps> = ({ result, imagePreview, on
         
         {/* Decorative Hazard Striping if Hazard */}
         {theme.isDark && (
-          <div className="absolute top-0 left-0 right-0 h-2 bg-gradient-to-r from-red-500 via-rose-500 to-red-500 animate-pulse z-20"></div>
+          <div aria-hidden="true" className="absolute top-0 left-0 right-0 h-2 bg-gradient-to-r from-red-500 via-rose-500 to-red-500 animate-pulse z-20"></div>
         )}
 
         {/* Left Side: Visuals */}
         <div className="md:w-5/12 relative min-h-[350px] md:min-h-full bg-slate-100 group overflow-hidden">
-          {imagePreview ? (
+          {imagePreview && isMultiItem ? (
+            <div className="absolute inset-0 flex items-center justify-center bg-slate-900">
+              <AnnotatedImage src={imagePreview} alt={t('result.imageAlt')} items={items} />
+            </div>
+          ) : imagePreview ? (
             <img 
               src={imagePreview} 
-              alt="Analyzed waste" 
+              alt={t('result.imageAlt')} 
               className="w-full h-full object-cover absolute inset-0 transition-transform duration-1000 group-hover:scale-110"
             />
           ) : (
             <div className="flex items-center justify-center h-full text-slate-400">
-              <Icons.Camera className="w-12 h-12" />
+              {result.source === 'barcode' ? <Icons.Barcode className="w-12 h-12" />
+                : result.source === 'text' ? <Icons.Search className="w-12 h-12" />
+                : <Icons.Camera className="w-12 h-12" />}
             </div>
           )}
           
@@ -119,10 +178,15 @@ export const ResultCard: React.FC<ResultCardProps> = ({ result, imagePreview, on
           {/* Item Name Badge */}
           <div className="absolute bottom-0 left-0 right-0 p-6 text-white z-10">
              <div className="flex items-center gap-2 mb-2 opacity-80">
-                <div className={`w-2 h-2 rounded-full ${theme.isDark ? 'bg-red-500 animate-ping' : 'bg-white'}`}></div>
-                <span className="text-xs font-bold uppercase tracking-widest">Detected Object</span>
+                <div aria-hidden="true" className={`w-2 h-2 rounded-full ${theme.isDark ? 'bg-red-500 animate-ping' : 'bg-white'}`}></div>
+                <span className="text-xs font-bold uppercase tracking-widest">
+                  {isMultiItem ? t('result.objectsDetected', { count: items.length })
+                    : result.source === 'barcode' ? t('result.fromBarcode', { code: result.barcode || '' })
+                    : result.source === 'text' ? t('result.fromSearch', { query: result.query || '' })
+                    : t('result.detectedObject')}
+                </span>
              </div>
-            <h2 className="text-4xl font-black tracking-tight text-white leading-none shadow-black drop-shadow-lg">
+            <h2 ref={headingRef} tabIndex={-1} className="text-4xl font-black tracking-tight text-white leading-none shadow-black drop-shadow-lg focus:outline-none">
               {result.itemName}
             </h2>
           </div>
@@ -130,12 +194,20 @@ export const ResultCard: React.FC<ResultCardProps> = ({ result, imagePreview, on
 
         {/* Right Side: Data */}
         <div className={`md:w-7/12 p-8 flex flex-col ${theme.isDark ? 'text-white' : ''}`}>
+
+          {/* Hazard Warning: spelled out, not just red */}
+          {result.category === WasteCategory.HAZARD && (
+            <p className="flex items-center gap-2 mb-6 px-4 py-3 rounded-xl bg-red-600 text-white text-sm font-black uppercase tracking-wider">
+              <Icons.Hazard className="w-5 h-5 flex-shrink-0" aria-hidden="true" />
+              {t('result.hazardWarning')}
+            </p>
+          )}
           
           {/* Header Row */}
           <div className="flex items-start justify-between mb-8">
             <div>
               <p className={`text-xs font-bold uppercase tracking-widest mb-2 ${theme.subText}`}>
-                Classification System
+                {t('result.classificationSystem')}
               </p>
               <div className="flex items-center gap-3">
                 <div className={`p-3 rounded-xl bg-gradient-to-br ${theme.gradient} text-white shadow-lg`}>
@@ -143,8 +215,14 @@ export const ResultCard: React.FC<ResultCardProps> = ({ result, imagePreview, on
                 </div>
                 <div>
                    <h3 className={`text-3xl font-black italic tracking-tighter ${theme.text}`}>
-                    {theme.label}
+                    {regionBin ? regionBin.label : theme.label}
                   </h3>
+                  {regionBin && (
+                    <p className={`flex items-center gap-2 text-xs font-bold uppercase tracking-wider mt-1 ${theme.subText}`}>
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: regionBin.color }} />
+                      {regionPack.name}
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
@@ -152,24 +230,61 @@ export const ResultCard: React.FC<ResultCardProps> = ({ result, imagePreview, on
             {/* Confidence Badge */}
             <div className={`text-center px-4 py-2 rounded-xl border ${theme.isDark ? 'border-slate-700 bg-slate-800' : 'border-slate-100 bg-slate-50'}`}>
               <div className={`text-2xl font-black ${theme.text}`}>
-                {confidencePercent}%
+                {isStreaming && !result.confidence ? '…' : `${confidencePercent}%`}
               </div>
-              <div className={`text-[10px] font-bold uppercase tracking-wider ${theme.subText}`}>
-                Match
+              <div className={`text-[10px] font-bold uppercase tracking-wider ${uncertain ? 'text-amber-500' : theme.subText}`}>
+                {uncertain ? t('result.uncertain') : t('result.match')}
               </div>
             </div>
           </div>
 
           <div className="space-y-6 flex-grow">
+
+            {/* Low-confidence Follow-up */}
+            {showClarify && onClarify && (
+              <ClarifyPanel
+                locale={locale}
+                questions={getClarifyingQuestions(result)}
+                isDark={theme.isDark}
+                onSubmit={onClarify}
+              />
+            )}
+
+            {/* Answers Given */}
+            {result.clarifications && result.clarifications.length > 0 && (
+              <div className={`p-4 rounded-xl border text-sm ${theme.isDark ? 'bg-slate-800 border-slate-700 text-slate-300' : 'bg-slate-50 border-slate-100 text-slate-600'}`}>
+                <span className={`block text-xs font-bold uppercase mb-2 ${theme.subText}`}>{t('result.recheckedWithAnswers')}</span>
+                <ul className="space-y-1">
+                  {result.clarifications.map(({ question, answer }) => (
+                    <li key={question}>{question} <strong className="uppercase">{t(`answer.${answer}` as MessageKey)}</strong></li>
+                  ))}
+                </ul>
+              </div>
+            )}
             
+            {/* Cache Hit */}
+            {result.cachedAt && (
+              <div className={`flex flex-wrap items-center justify-between gap-2 px-4 py-3 rounded-xl border text-sm ${theme.isDark ? 'bg-slate-800 border-slate-700 text-slate-300' : 'bg-slate-50 border-slate-100 text-slate-600'}`}>
+                <span className="flex items-center gap-2">
+                  <Icons.History className="w-4 h-4" />
+                  {t('result.cachedAt', { time: new Date(result.cachedAt).toLocaleString(locale) })}
+                </span>
+                {onReanalyze && (
+                  <button onClick={onReanalyze} className={`font-bold underline underline-offset-4 ${theme.isDark ? 'text-white' : 'text-slate-800'}`}>
+                    {t('result.reanalyze')}
+                  </button>
+                )}
+              </div>
+            )}
+
             {/* Analysis Box */}
             <div className={`p-5 rounded-2xl border ${theme.isDark ? 'bg-slate-800 border-slate-700' : `${theme.bgLight} border-transparent`}`}>
               <h4 className={`text-xs font-bold uppercase flex items-center gap-2 mb-3 ${theme.subText}`}>
                 <Icons.Scan className="w-4 h-4" />
-                Visual Analysis
+                {t('result.visualAnalysis')}
               </h4>
               <p className={`text-base leading-relaxed font-medium ${theme.text}`}>
-                {result.reasoning}
+                {result.reasoning || (isStreaming && <StreamingPlaceholder isDark={theme.isDark} />)}
               </p>
             </div>
 
@@ -177,20 +292,52 @@ export const ResultCard: React.FC<ResultCardProps> = ({ result, imagePreview, on
             <div>
               <h4 className={`text-xs font-bold uppercase flex items-center gap-2 mb-2 ${theme.subText}`}>
                 <Icons.Check className={`w-4 h-4 ${theme.isDark ? 'text-green-400' : 'text-emerald-500'}`} />
-                Required Action
+                {t('result.requiredAction')}
               </h4>
               <p className={`text-lg font-bold ${theme.text}`}>
-                {result.disposalAction}
+                {result.disposalAction || (isStreaming && <StreamingPlaceholder isDark={theme.isDark} />)}
               </p>
             </div>
 
+            {/* Disassembly Steps */}
+            {result.components && result.components.length > 0 && (
+              <div>
+                <h4 className={`text-xs font-bold uppercase flex items-center gap-2 mb-3 ${theme.subText}`}>
+                  <Icons.Disassemble className="w-4 h-4" />
+                  {t('result.takeApart')}
+                </h4>
+                <DisassemblyChecklist components={result.components} regionPack={regionPack} isDark={theme.isDark} />
+              </div>
+            )}
+
+            {/* Hazard Handling Checklist */}
+            {result.hazardDetails && (
+              <HazardChecklist locale={locale} details={result.hazardDetails} />
+            )}
+
+            {/* Drop-off Finder */}
+            {!isStreaming && hasMatchingFacilities(result) && (
+              <DropOffFinder locale={locale} result={result} isDark={theme.isDark} />
+            )}
+
+            {/* Multi-item Breakdown */}
+            {isMultiItem && (
+              <div>
+                <h4 className={`text-xs font-bold uppercase flex items-center gap-2 mb-3 ${theme.subText}`}>
+                  <Icons.Scan className="w-4 h-4" />
+                  {t('result.everyItem')}
+                </h4>
+                <DetectedItemsList locale={locale} items={items} isDark={theme.isDark} />
+              </div>
+            )}
+
             {/* Did You Know? */}
             <div className={`flex items-start gap-3 p-4 rounded-xl ${theme.isDark ? 'bg-rose-900/20 border border-rose-500/30' : 'bg-blue-50 border border-blue-100'}`}>
                <Icons.Sparkles className={`w-5 h-5 flex-shrink-0 ${theme.isDark ? 'text-rose-400' : 'text-blue-500'}`} />
                <div>
-                  <span className={`block text-xs font-bold uppercase mb-1 ${theme.isDark ? 'text-rose-400' : 'text-blue-600'}`}>Eco Fact</span>
+                  <span className={`block text-xs font-bold uppercase mb-1 ${theme.isDark ? 'text-rose-400' : 'text-blue-600'}`}>{t('result.ecoFact')}</span>
                   <p className={`text-sm ${theme.isDark ? 'text-rose-200' : 'text-blue-800'}`}>
-                    {result.sustainabilityTip || "Proper disposal reduces landfill waste by up to 40%."}
+                    {result.sustainabilityTip || (isStreaming ? <StreamingPlaceholder isDark={theme.isDark} /> : t('result.defaultTip'))}
                   </p>
                </div>
             </div>
@@ -198,17 +345,61 @@ export const ResultCard: React.FC<ResultCardProps> = ({ result, imagePreview, on
           </div>
 
           <div className={`mt-8 pt-6 border-t flex flex-col sm:flex-row gap-3 ${theme.isDark ? 'border-slate-700' : 'border-slate-100'}`}>
-             <Button onClick={onReset} variant={theme.isDark ? 'secondary' : 'primary'} className="flex-1 py-4 text-lg shadow-xl">
-              <Icons.Refresh className="w-5 h-5 mr-2" />
-              Scan Next Item
-             </Button>
-             
-             <Button onClick={handleShare} variant="outline" className={`px-6 ${theme.isDark ? 'text-white border-slate-600 hover:bg-slate-800' : ''}`}>
-               <Icons.Share className="w-5 h-5" />
-             </Button>
+             {isStreaming ? (
+               <Button onClick={onReset} variant="outline" className={`flex-1 py-4 text-lg ${theme.isDark ? 'text-white border-slate-600 hover:bg-slate-800' : ''}`}>
+                 <Icons.X className="w-5 h-5 me-2" />
+                 {t('loading.cancel')}
+               </Button>
+             ) : (
+               <>
+                 <Button onClick={onReset} variant={theme.isDark ? 'secondary' : 'primary'} className="flex-1 py-4 text-lg shadow-xl">
+                  <Icons.Refresh className="w-5 h-5 me-2" />
+                  {t('result.scanNext')}
+                 </Button>
+
+                 {isSpeechSupported() && (
+                   <Button onClick={() => speak(describeResult(result, t), locale)} variant="outline" aria-label={t('result.readAloud')} className={`px-6 ${theme.isDark ? 'text-white border-slate-600 hover:bg-slate-800' : ''}`}>
+                     <Icons.Speak className="w-5 h-5" />
+                   </Button>
+                 )}
+
+                 <Button onClick={handleShare} variant="outline" aria-label={t('result.share')} className={`px-6 ${theme.isDark ? 'text-white border-slate-600 hover:bg-slate-800' : ''}`}>
+                   <Icons.Share className="w-5 h-5" />
+                 </Button>
+               </>
+             )}
           </div>
+
+          {/* Correction Flow */}
+          {!isStreaming && (
+            <div className="mt-4 text-center">
+              {isFeedbackSent ? (
+                <p className={`text-sm font-semibold ${theme.subText}`}>{t('result.feedbackThanks')}</p>
+              ) : (
+                <button
+                  onClick={() => setIsFeedbackOpen(true)}
+                  className={`text-sm font-semibold underline underline-offset-4 ${theme.isDark ? 'text-rose-200 hover:text-white' : 'text-slate-500 hover:text-slate-800'}`}
+                >
+                  {t('result.wrongCategory')}
+                </button>
+              )}
+            </div>
+          )}
         </div>
       </div>
+
+      {isFeedbackOpen && (
+        <FeedbackDialog
+          locale={locale}
+          result={result}
+          imagePreview={imagePreview}
+          onClose={() => setIsFeedbackOpen(false)}
+          onSubmitted={() => {
+            setIsFeedbackOpen(false);
+            setIsFeedbackSent(true);
+          }}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
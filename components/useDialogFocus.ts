@@ -0,0 +1,50 @@
+import { useEffect, useRef } from 'react';
+
+const FOCUSABLE = 'button:not([disabled]), [href], input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+/**
+ * Keyboard behaviour for a modal: focus moves into it when it opens, Tab
+ * cycles inside it, Escape closes it, and focus returns to whatever opened it.
+ * Attach the returned ref to the dialog's container.
+ */
+export const useDialogFocus = <T extends HTMLElement>(onClose: () => void) => {
+  const containerRef = useRef<T>(null);
+  // Kept in a ref so the listeners don't re-register on every render.
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    const opener = document.activeElement as HTMLElement | null;
+    const container = containerRef.current;
+    container?.querySelector<HTMLElement>(FOCUSABLE)?.focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.stopPropagation();
+        onCloseRef.current();
+        return;
+      }
+      if (e.key !== 'Tab' || !container) return;
+
+      const focusable: HTMLElement[] = Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE));
+      if (focusable.length === 0) return;
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      if (e.shiftKey && document.activeElement === first) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      opener?.focus?.();
+    };
+  }, []);
+
+  return containerRef;
+};
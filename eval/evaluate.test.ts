@@ -0,0 +1,37 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { WasteCategory } from "../types";
+import { buildReport } from "./metrics";
+import { Recordings, evaluateDataset, readManifest } from "./evaluate";
+
+const SAMPLE_DIR = path.join(__dirname, "sample");
+const recordings: Recordings = JSON.parse(readFileSync(path.join(SAMPLE_DIR, "recordings.json"), "utf8"));
+
+describe("evaluateDataset in replay mode", () => {
+  it("reproduces the sample report offline", async () => {
+    const manifest = readManifest(SAMPLE_DIR);
+    const outcomes = await evaluateDataset(SAMPLE_DIR, manifest.cases, { regionId: "generic", replay: recordings });
+    const report = buildReport(outcomes);
+
+    expect(report).toMatchObject({ total: 6, errors: 0 });
+    expect(report.accuracy).toBeCloseTo(5 / 6);
+    expect(report.confusionMatrix[WasteCategory.COMPOST]).toMatchObject({ RECYCLE: 1, COMPOST: 1 });
+    expect(report.confusionMatrix[WasteCategory.HAZARD][WasteCategory.HAZARD]).toBe(2);
+    expect(report.confusionMatrix[WasteCategory.RECYCLE][WasteCategory.RECYCLE]).toBe(1);
+    expect(report.confusionMatrix[WasteCategory.TRASH][WasteCategory.TRASH]).toBe(1);
+    expect(report.misclassified).toEqual([
+      expect.objectContaining({ file: "pizza-box.png", expected: "COMPOST", predicted: "RECYCLE" }),
+    ]);
+    expect(report.expectedCalibrationError).toBeCloseTo(0.17, 2);
+  });
+
+  it("counts an image without a recording as an error", async () => {
+    const outcomes = await evaluateDataset(SAMPLE_DIR, [{ file: "can.png", expected: WasteCategory.RECYCLE }], {
+      regionId: "generic",
+      replay: {},
+    });
+    expect(outcomes[0]).toMatchObject({ predicted: null, error: "No recording for this image." });
+    expect(buildReport(outcomes)).toMatchObject({ errors: 1, accuracy: 0 });
+  });
+});
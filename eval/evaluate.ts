@@ -0,0 +1,80 @@
+import { createHash } from "crypto";
+import { readFileSync } from "fs";
+import path from "path";
+import { AnalysisResult, WasteClassifier, WasteCategory } from "../types";
+import { validateAnalysisResult } from "../services/validation";
+import { getRegionPack } from "../services/regionService";
+import { EvalCase, EvalOutcome } from "./metrics";
+
+const MIME_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+};
+
+export type Recordings = Record<string, AnalysisResult>;
+
+export interface Manifest {
+  regionId?: string;
+  cases: EvalCase[];
+}
+
+export const readManifest = (datasetDir: string): Manifest => {
+  const raw = JSON.parse(readFileSync(path.join(datasetDir, "manifest.json"), "utf8"));
+  const manifest: Manifest = Array.isArray(raw) ? { cases: raw } : raw;
+
+  manifest.cases.forEach(evalCase => {
+    if (!Object.values(WasteCategory).includes(evalCase.expected)) {
+      throw new Error(`Manifest entry "${evalCase.file}" has an unknown expected category: ${evalCase.expected}`);
+    }
+  });
+  return manifest;
+};
+
+// Recordings are keyed by image content and rule pack, not by file name,
+// so renaming files in a dataset doesn't invalidate them.
+export const recordingKey = (imageBytes: Buffer, regionId: string) =>
+  `${regionId}:${createHash("sha256").update(imageBytes).digest("hex")}`;
+
+export interface EvaluateOptions {
+  regionId: string;
+  // Answers from these recordings instead of calling `classifier`
+  replay?: Recordings | null;
+  classifier?: WasteClassifier;
+  // Filled with every live classification, keyed like a recordings file
+  recorded?: Recordings;
+  onProgress?: () => void;
+}
+
+/**
+ * Classifies every case in the dataset, live or from recordings. A failed case
+ * is kept as an outcome with `predicted: null` so the report counts it.
+ */
+export const evaluateDataset = async (datasetDir: string, cases: EvalCase[], options: EvaluateOptions): Promise<EvalOutcome[]> => {
+  const { regionId, replay, classifier, recorded, onProgress } = options;
+  const outcomes: EvalOutcome[] = [];
+  for (const evalCase of cases) {
+    const imageBytes = readFileSync(path.join(datasetDir, evalCase.file));
+    const mimeType = MIME_TYPES[path.extname(evalCase.file).toLowerCase()] || "image/jpeg";
+    const key = recordingKey(imageBytes, regionId);
+
+    try {
+      let predicted: AnalysisResult;
+      if (replay) {
+        if (!replay[key]) throw new Error("No recording for this image.");
+        predicted = validateAnalysisResult(replay[key], getRegionPack(regionId));
+      } else if (classifier) {
+        predicted = await classifier.classify(`data:${mimeType};base64,${imageBytes.toString("base64")}`, { regionId });
+        if (recorded) recorded[key] = predicted;
+      } else {
+        throw new Error("No classifier or recordings to evaluate with.");
+      }
+      outcomes.push({ ...evalCase, predicted });
+    } catch (error) {
+      outcomes.push({ ...evalCase, predicted: null, error: error instanceof Error ? error.message : String(error) });
+    }
+    onProgress?.();
+  }
+  return outcomes;
+};
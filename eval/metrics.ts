@@ -0,0 +1,149 @@
+import { AnalysisResult, WasteCategory } from "../types";
+
+export interface EvalCase {
+  file: string;
+  expected: WasteCategory;
+}
+
+export interface EvalOutcome {
+  file: string;
+  expected: WasteCategory;
+  predicted: AnalysisResult | null;
+  error?: string;
+}
+
+export interface CategoryAccuracy {
+  category: WasteCategory;
+  support: number;
+  correct: number;
+  accuracy: number;
+}
+
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanConfidence: number;
+  accuracy: number;
+}
+
+export interface EvalReport {
+  total: number;
+  errors: number;
+  accuracy: number;
+  perCategory: CategoryAccuracy[];
+  confusionMatrix: Record<WasteCategory, Record<WasteCategory, number>>;
+  calibration: CalibrationBin[];
+  expectedCalibrationError: number;
+  misclassified: { file: string; expected: WasteCategory; predicted: WasteCategory | null; confidence: number | null; itemName: string | null; error?: string }[];
+}
+
+const CATEGORIES = Object.values(WasteCategory);
+const CALIBRATION_BINS = 10;
+
+const emptyRow = () =>
+  Object.fromEntries(CATEGORIES.map(category => [category, 0])) as Record<WasteCategory, number>;
+
+/**
+ * Failed classifications count as wrong and are reported under UNKNOWN in the
+ * confusion matrix, so a flaky backend can't look more accurate than it is.
+ */
+export const buildReport = (outcomes: EvalOutcome[]): EvalReport => {
+  const confusionMatrix = Object.fromEntries(
+    CATEGORIES.map(category => [category, emptyRow()])
+  ) as EvalReport["confusionMatrix"];
+
+  outcomes.forEach(outcome => {
+    const predicted = outcome.predicted?.category ?? WasteCategory.UNKNOWN;
+    confusionMatrix[outcome.expected][predicted] += 1;
+  });
+
+  const isCorrect = (outcome: EvalOutcome) => outcome.predicted?.category === outcome.expected;
+  const correct = outcomes.filter(isCorrect).length;
+
+  const perCategory = CATEGORIES
+    .map(category => {
+      const cases = outcomes.filter(outcome => outcome.expected === category);
+      const hits = cases.filter(isCorrect).length;
+      return { category, support: cases.length, correct: hits, accuracy: cases.length ? hits / cases.length : 0 };
+    })
+    .filter(row => row.support > 0);
+
+  const scored = outcomes.filter(outcome => outcome.predicted);
+  const calibration: CalibrationBin[] = Array.from({ length: CALIBRATION_BINS }, (_, index) => {
+    const lower = index / CALIBRATION_BINS;
+    const upper = (index + 1) / CALIBRATION_BINS;
+    const inBin = scored.filter(outcome => {
+      const confidence = outcome.predicted!.confidence;
+      return confidence >= lower && (confidence < upper || (index === CALIBRATION_BINS - 1 && confidence <= upper));
+    });
+    const meanConfidence = inBin.length
+      ? inBin.reduce((sum, outcome) => sum + outcome.predicted!.confidence, 0) / inBin.length
+      : 0;
+    return {
+      lower,
+      upper,
+      count: inBin.length,
+      meanConfidence,
+      accuracy: inBin.length ? inBin.filter(isCorrect).length / inBin.length : 0,
+    };
+  });
+
+  const expectedCalibrationError = scored.length
+    ? calibration.reduce((sum, bin) => sum + (bin.count / scored.length) * Math.abs(bin.accuracy - bin.meanConfidence), 0)
+    : 0;
+
+  return {
+    total: outcomes.length,
+    errors: outcomes.filter(outcome => outcome.error).length,
+    accuracy: outcomes.length ? correct / outcomes.length : 0,
+    perCategory,
+    confusionMatrix,
+    calibration,
+    expectedCalibrationError,
+    misclassified: outcomes.filter(outcome => !isCorrect(outcome)).map(outcome => ({
+      file: outcome.file,
+      expected: outcome.expected,
+      predicted: outcome.predicted?.category ?? null,
+      confidence: outcome.predicted?.confidence ?? null,
+      itemName: outcome.predicted?.itemName ?? null,
+      error: outcome.error,
+    })),
+  };
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export const formatReport = (report: EvalReport): string => {
+  const lines: string[] = [];
+
+  lines.push(`Cases: ${report.total}  Errors: ${report.errors}  Accuracy: ${percent(report.accuracy)}`, "");
+
+  lines.push("Accuracy per category:");
+  report.perCategory.forEach(row => {
+    lines.push(`  ${row.category.padEnd(8)} ${String(row.correct).padStart(4)}/${String(row.support).padEnd(4)} ${percent(row.accuracy)}`);
+  });
+
+  lines.push("", "Confusion matrix (rows = expected, columns = predicted):");
+  lines.push(`  ${"".padEnd(8)} ${CATEGORIES.map(category => category.slice(0, 7).padStart(8)).join("")}`);
+  CATEGORIES.forEach(expected => {
+    const row = report.confusionMatrix[expected];
+    if (CATEGORIES.every(predicted => row[predicted] === 0)) return;
+    lines.push(`  ${expected.padEnd(8)} ${CATEGORIES.map(predicted => String(row[predicted]).padStart(8)).join("")}`);
+  });
+
+  lines.push("", `Calibration (ECE ${report.expectedCalibrationError.toFixed(3)}):`);
+  report.calibration.filter(bin => bin.count > 0).forEach(bin => {
+    lines.push(`  ${bin.lower.toFixed(1)}–${bin.upper.toFixed(1)}  n=${String(bin.count).padEnd(4)} confidence ${percent(bin.meanConfidence).padStart(6)}  accuracy ${percent(bin.accuracy).padStart(6)}`);
+  });
+
+  lines.push("", `Misclassified (${report.misclassified.length}):`);
+  report.misclassified.forEach(miss => {
+    const predicted = miss.error
+      ? `error: ${miss.error}`
+      : `${miss.predicted} (${percent(miss.confidence || 0)}, "${miss.itemName}")`;
+    lines.push(`  ${miss.file}: expected ${miss.expected}, got ${predicted}`);
+  });
+
+  return lines.join("\n");
+};
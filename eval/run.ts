@@ -0,0 +1,97 @@
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { parseArgs } from "util";
+import dotenv from "dotenv";
+import { ClassifierBackend } from "../types";
+import { getClassifier } from "../services/classifierService";
+import { getRegionPack } from "../services/regionService";
+import { buildReport, formatReport } from "./metrics";
+import { Recordings, evaluateDataset, readManifest } from "./evaluate";
+
+dotenv.config({ path: [".env.local", ".env"], quiet: true });
+// The browser client reads API_KEY; the server and this runner use GEMINI_API_KEY.
+process.env.API_KEY ??= process.env.GEMINI_API_KEY;
+
+const USAGE = `
+Usage: npm run eval -- <dataset-dir> [options]
+
+The dataset directory must contain a manifest.json listing the images:
+  { "regionId": "generic", "cases": [{ "file": "can.jpg", "expected": "RECYCLE" }] }
+
+Options:
+  --backend <gemini|proxy|mock>  Classifier backend (default: CLASSIFIER_BACKEND or gemini)
+  --region <id>                  Region rule pack (overrides the manifest)
+  --record <file>                Save every classification to a recordings file
+  --replay <file>                Answer from a recordings file instead of calling a backend
+  --out <file>                   Write the full report as JSON
+  --min-accuracy <0-1>           Exit with code 1 when accuracy is below this value
+`;
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      backend: { type: "string" },
+      region: { type: "string" },
+      record: { type: "string" },
+      replay: { type: "string" },
+      out: { type: "string" },
+      "min-accuracy": { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const datasetDir = positionals[0];
+  if (values.help || !datasetDir) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+  if (values.record && values.replay) {
+    throw new Error("--record and --replay cannot be combined.");
+  }
+
+  const manifest = readManifest(datasetDir);
+  const regionId = getRegionPack(values.region || manifest.regionId).id;
+  const classifier = getClassifier((values.backend || process.env.CLASSIFIER_BACKEND || "gemini") as ClassifierBackend);
+  if (!values.replay && !classifier) {
+    throw new Error(`Unknown backend: ${values.backend}`);
+  }
+
+  const replay: Recordings | null = values.replay ? JSON.parse(readFileSync(values.replay, "utf8")) : null;
+  const recorded: Recordings = values.record && existsSync(values.record)
+    ? JSON.parse(readFileSync(values.record, "utf8"))
+    : {};
+
+  console.log(`Evaluating ${manifest.cases.length} images with ${replay ? `replay (${values.replay})` : classifier.name}, region "${regionId}"...`);
+
+  const outcomes = await evaluateDataset(datasetDir, manifest.cases, {
+    regionId,
+    replay,
+    classifier,
+    recorded,
+    onProgress: () => process.stdout.write("."),
+  });
+  process.stdout.write("\n\n");
+
+  if (values.record) {
+    writeFileSync(values.record, JSON.stringify(recorded, null, 2) + "\n");
+    console.log(`Recorded ${Object.keys(recorded).length} classifications to ${values.record}\n`);
+  }
+
+  const report = buildReport(outcomes);
+  console.log(formatReport(report));
+
+  if (values.out) {
+    writeFileSync(values.out, JSON.stringify(report, null, 2) + "\n");
+  }
+
+  const minAccuracy = values["min-accuracy"] ? Number(values["min-accuracy"]) : null;
+  if (minAccuracy !== null && report.accuracy < minAccuracy) {
+    console.error(`\nAccuracy ${report.accuracy.toFixed(3)} is below --min-accuracy ${minAccuracy}.`);
+    process.exit(1);
+  }
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
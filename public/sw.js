@@ -0,0 +1,82 @@
+// ECO SORT service worker: keeps the app shell available offline.
+// Classification requests are never cached; offline scans go to the IndexedDB outbox instead.
+
+const CACHE_NAME = "eco-sort-shell-v1";
+const SHELL_URLS = ["/", "/index.html", "/manifest.webmanifest", "/icon.svg", "/icon-maskable.svg"];
+
+// Cross-origin resources the shell loads at runtime (Tailwind, fonts, import map modules)
+const CACHEABLE_ORIGINS = [
+  "https://cdn.tailwindcss.com",
+  "https://fonts.googleapis.com",
+  "https://fonts.gstatic.com",
+  "https://esm.sh",
+];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const isCacheable = (url) =>
+  (url.origin === self.location.origin && !url.pathname.startsWith("/api/"))
+  || CACHEABLE_ORIGINS.includes(url.origin);
+
+const putInCache = async (request, response) => {
+  if (response.ok || response.type === "opaque") {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (!isCacheable(url)) return;
+
+  // Pages: network first so deploys show up, falling back to the cached shell.
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request)
+        .then((response) => putInCache("/index.html", response))
+        .catch(() => caches.match("/index.html"))
+    );
+    return;
+  }
+
+  // Assets: serve from cache and refresh in the background (hashed build files never change).
+  event.respondWith(
+    caches.match(request).then((cached) => {
+      const network = fetch(request).then((response) => putInCache(request, response));
+      if (cached) {
+        event.waitUntil(network.catch(() => undefined));
+        return cached;
+      }
+      return network;
+    })
+  );
+});
+
+// Focus the app when an "outbox results ready" notification is tapped.
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((clients) => {
+      const client = clients[0];
+      return client ? client.focus() : self.clients.openWindow("/");
+    })
+  );
+});
@@ -0,0 +1,126 @@
+import { NextFunction, Request, Response } from "express";
+import crypto from "crypto";
+import { getDatabase } from "./db";
+import { HttpError } from "./errors";
+
+const KEY_PREFIX = "esk_";
+export const DEFAULT_DAILY_QUOTA = 1000;
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  dailyQuota: number;
+  createdAt: number;
+  revokedAt: number | null;
+}
+
+interface ApiKeyRow {
+  id: string;
+  name: string;
+  daily_quota: number;
+  created_at: number;
+  revoked_at: number | null;
+}
+
+const toApiKey = (row: ApiKeyRow): ApiKey => ({
+  id: row.id,
+  name: row.name,
+  dailyQuota: row.daily_quota,
+  createdAt: row.created_at,
+  revokedAt: row.revoked_at,
+});
+
+const hashKey = (key: string) => crypto.createHash("sha256").update(key).digest("hex");
+
+// Quotas reset at midnight UTC.
+const usageDay = (at: number) => new Date(at).toISOString().slice(0, 10);
+
+const msUntilNextDay = (at: number) => {
+  const next = new Date(at);
+  next.setUTCHours(24, 0, 0, 0);
+  return next.getTime() - at;
+};
+
+/** Issues a key and returns it in plaintext once; only its hash is stored. */
+export const createApiKey = (name: string, dailyQuota = DEFAULT_DAILY_QUOTA) => {
+  const apiKey: ApiKey = { id: crypto.randomUUID().slice(0, 8), name, dailyQuota, createdAt: Date.now(), revokedAt: null };
+  const key = `${KEY_PREFIX}${crypto.randomBytes(24).toString("base64url")}`;
+  getDatabase()
+    .prepare("INSERT INTO api_keys (id, name, key_hash, daily_quota, created_at) VALUES (?, ?, ?, ?, ?)")
+    .run(apiKey.id, name, hashKey(key), dailyQuota, apiKey.createdAt);
+  return { apiKey, key };
+};
+
+/** Every key with the number of requests it has made today. */
+export const listApiKeys = (now = Date.now()): (ApiKey & { usedToday: number })[] => {
+  const rows = getDatabase().prepare(`
+    SELECT k.*, COALESCE(u.count, 0) AS used_today
+    FROM api_keys k LEFT JOIN api_key_usage u ON u.key_id = k.id AND u.day = ?
+    ORDER BY k.created_at
+  `).all(usageDay(now)) as (ApiKeyRow & { used_today: number })[];
+  return rows.map(row => ({ ...toApiKey(row), usedToday: row.used_today }));
+};
+
+export const revokeApiKey = (id: string): boolean =>
+  getDatabase().prepare("UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL").run(Date.now(), id).changes > 0;
+
+export const findApiKey = (key: string): ApiKey | undefined => {
+  const row = getDatabase()
+    .prepare("SELECT * FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL")
+    .get(hashKey(key)) as ApiKeyRow | undefined;
+  return row && toApiKey(row);
+};
+
+/** Counts one request against today's quota, refusing it once the quota is used up. */
+export const consumeQuota = (apiKey: ApiKey, now = Date.now()): { allowed: boolean; retryAfterMs: number } => {
+  const db = getDatabase();
+  const day = usageDay(now);
+  const consume = db.transaction(() => {
+    const row = db.prepare("SELECT count FROM api_key_usage WHERE key_id = ? AND day = ?").get(apiKey.id, day) as { count: number } | undefined;
+    if ((row?.count || 0) >= apiKey.dailyQuota) return false;
+    db.prepare(`
+      INSERT INTO api_key_usage (key_id, day, count) VALUES (?, ?, 1)
+      ON CONFLICT (key_id, day) DO UPDATE SET count = count + 1
+    `).run(apiKey.id, day);
+    return true;
+  });
+
+  return consume() ? { allowed: true, retryAfterMs: 0 } : { allowed: false, retryAfterMs: msUntilNextDay(now) };
+};
+
+/** Reads the key from `X-API-Key` or an `Authorization: Bearer` header. */
+const readKey = (req: Request): string | undefined =>
+  req.get("X-API-Key") || req.get("Authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1];
+
+/**
+ * Puts the caller's key in `res.locals.apiKey`. A key that is sent must be
+ * valid; sending none is only allowed when `required` is false.
+ */
+export const authenticate = (required: boolean) => (req: Request, res: Response, next: NextFunction) => {
+  const key = readKey(req);
+  if (!key) {
+    if (required) throw new HttpError(401, "unauthorized", "An API key is required (send it in the X-API-Key header).");
+    next();
+    return;
+  }
+
+  const apiKey = findApiKey(key);
+  if (!apiKey) throw new HttpError(401, "unauthorized", "Unknown or revoked API key.");
+  res.locals.apiKey = apiKey;
+  next();
+};
+
+/** Rate limiting and quotas apply per key, falling back to the client address. */
+export const clientKey = (req: Request, res: Response): string =>
+  res.locals.apiKey ? `key:${(res.locals.apiKey as ApiKey).id}` : `ip:${req.ip}`;
+
+export const enforceDailyQuota = (now: () => number = Date.now) => (_req: Request, res: Response, next: NextFunction) => {
+  const apiKey = res.locals.apiKey as ApiKey | undefined;
+  if (apiKey) {
+    const { allowed, retryAfterMs } = consumeQuota(apiKey, now());
+    if (!allowed) {
+      throw new HttpError(429, "quotaExceeded", `Daily quota of ${apiKey.dailyQuota} requests used up.`, { retryAfterMs });
+    }
+  }
+  next();
+};
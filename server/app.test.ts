@@ -0,0 +1,180 @@
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AnalysisResult, WasteCategory } from "../types";
+import { SafetyBlockError } from "../services/classifierErrors";
+import { createApiKey } from "./apiKeys";
+import { createApp, ServerOptions } from "./app";
+
+process.env.SYNC_DB_PATH = ":memory:";
+
+// A 1x1 PNG, so the upload passes the magic-byte check
+const PNG = "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+
+const RESULT: AnalysisResult = {
+  category: WasteCategory.RECYCLE,
+  itemName: "Soda Can",
+  confidence: 0.96,
+  reasoning: "Clean aluminium can.",
+  disposalAction: "Rinse and recycle.",
+  sustainabilityTip: "Cans are endlessly recyclable.",
+};
+
+let server: Server | null = null;
+
+// Starts the app on a free port with a stubbed upstream classifier.
+const start = async (options: Partial<ServerOptions> = {}) => {
+  const classify = vi.fn<ServerOptions["classify"]>(async () => RESULT);
+  const app = createApp({ classify, classifyText: async () => RESULT, ...options });
+  server = await new Promise<Server>(resolve => {
+    const listening: Server = app.listen(0, () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  const post = (path: string, body: unknown, headers: Record<string, string> = {}) => fetch(`http://127.0.0.1:${port}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+  const get = (path: string, headers: Record<string, string> = {}) => fetch(`http://127.0.0.1:${port}${path}`, { headers });
+  return { classify, post, get };
+};
+
+describe("createApp", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await new Promise(resolve => server ? server.close(resolve) : resolve(undefined));
+    server = null;
+  });
+
+  it("classifies a valid image with the stubbed upstream", async () => {
+    const { classify, post } = await start();
+    const response = await post("/classify", { image: PNG, regionId: "generic", locale: "es" });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ itemName: "Soda Can" });
+    expect(classify).toHaveBeenCalledWith(`data:image/png;base64,${PNG}`, expect.objectContaining({ regionId: "generic", locale: "es" }));
+  });
+
+  it("rejects an invalid body with 400 and lists every issue", async () => {
+    const { classify, post } = await start();
+    const response = await post("/classify", { image: "not an image!", regionId: "atlantis" });
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.code).toBe("invalidRequest");
+    expect(body.issues.length).toBeGreaterThanOrEqual(2);
+    expect(classify).not.toHaveBeenCalled();
+  });
+
+  it("requires an API key when configured to, with 401", async () => {
+    const { post } = await start({ requireApiKey: true });
+
+    const missing = await post("/classify", { image: PNG });
+    expect(missing.status).toBe(401);
+    expect((await missing.json()).code).toBe("unauthorized");
+
+    const unknown = await post("/classify", { image: PNG }, { "X-API-Key": "esk_not-a-real-key" });
+    expect(unknown.status).toBe(401);
+  });
+
+  it("rejects an oversized image with 413", async () => {
+    const { classify, post } = await start({ maxImageBytes: 32 });
+    const response = await post("/classify", { image: PNG });
+
+    expect(response.status).toBe(413);
+    expect((await response.json()).code).toBe("payloadTooLarge");
+    expect(classify).not.toHaveBeenCalled();
+  });
+
+  it("rate-limits bursts with 429 and Retry-After", async () => {
+    const { post } = await start({ rateLimitBurst: 1, rateLimitPerMinute: 1 });
+
+    expect((await post("/classify", { image: PNG })).status).toBe(200);
+    const limited = await post("/classify", { image: PNG });
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get("Retry-After"))).toBeGreaterThan(0);
+    expect((await limited.json()).code).toBe("rateLimit");
+  });
+
+  it("refuses requests once a key's daily quota is used up", async () => {
+    const { key } = createApiKey("quota test", 1);
+    const { classify, post } = await start({ requireApiKey: true });
+
+    expect((await post("/classify", { image: PNG }, { "X-API-Key": key })).status).toBe(200);
+    const exhausted = await post("/classify/text", { text: "soda can" }, { "X-API-Key": key });
+    expect(exhausted.status).toBe(429);
+    expect((await exhausted.json()).code).toBe("quotaExceeded");
+    expect(classify).toHaveBeenCalledTimes(1);
+  });
+
+  it("maps upstream classifier errors onto their HTTP status", async () => {
+    const { post } = await start({ classify: async () => { throw new SafetyBlockError("SAFETY"); } });
+    const response = await post("/classify", { image: PNG });
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toMatchObject({ code: "safety", retryable: false });
+  });
+});
+
+describe("group routes", () => {
+  afterEach(async () => {
+    await new Promise(resolve => server ? server.close(resolve) : resolve(undefined));
+    server = null;
+  });
+
+  it("rate-limits creating and joining groups", async () => {
+    const { post } = await start({ rateLimitBurst: 2, rateLimitPerMinute: 1 });
+
+    const created = await post("/groups", { groupName: "Flat 4", memberName: "Sam" });
+    expect(created.status).toBe(201);
+    const { group } = await created.json();
+    expect((await post("/groups/join", { code: "WRONG1", memberName: "Guess" })).status).toBe(404);
+
+    const limited = await post("/groups/join", { code: group.code, memberName: "Alex" });
+    expect(limited.status).toBe(429);
+  });
+
+  it("rejects large bodies on create and join with 413", async () => {
+    const { post } = await start();
+    const response = await post("/groups/join", { code: "ABC234", memberName: "x".repeat(10_000) });
+    expect(response.status).toBe(413);
+  });
+
+  it("keeps scans from before a member joined out of the group", async () => {
+    const { post } = await start();
+    const { token } = await (await post("/groups", { groupName: "Office", memberName: "Sam" })).json();
+    const scan = (id: string, timestamp: number) => ({ id, timestamp, thumbnail: null, result: RESULT });
+
+    const response = await post("/groups/scans", {
+      scans: [scan("old", Date.now() - 24 * 60 * 60 * 1000), scan("new", Date.now())],
+    }, { Authorization: `Bearer ${token}` });
+    expect(await response.json()).toEqual({ received: 2, inserted: 1, rejected: 1 });
+  });
+
+  it("pages through shared scans oldest first without dropping any", async () => {
+    const { post, get } = await start();
+    const { token } = await (await post("/groups", { groupName: "Office", memberName: "Sam" })).json();
+    const auth = { Authorization: `Bearer ${token}` };
+    const now = Date.now();
+    // Two scans share a timestamp so a page can end between them
+    const scans = ["a", "b", "c", "d", "e"].map((id, index) => ({ id, timestamp: now + Math.min(index, 3), thumbnail: null, result: RESULT }));
+    await post("/groups/scans", { scans }, auth);
+
+    const pages: string[][] = [];
+    let query = "?limit=2";
+    for (;;) {
+      const page = await (await get(`/groups/scans${query}`, auth)).json();
+      pages.push(page.scans.map((scan: { id: string }) => scan.id));
+      if (!page.nextCursor) break;
+      query = `?limit=2&cursor=${encodeURIComponent(page.nextCursor)}`;
+    }
+    expect(pages).toEqual([["a", "b"], ["c", "d"], ["e"]]);
+
+    const later = await (await get(`/groups/scans?since=${now + 2}`, auth)).json();
+    expect(later).toEqual({ scans: [expect.objectContaining({ id: "d" }), expect.objectContaining({ id: "e" })], nextCursor: null });
+  });
+});
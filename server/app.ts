@@ -0,0 +1,126 @@
+import express, { NextFunction, Request, Response } from "express";
+import { AnalysisResult, ClassifyOptions } from "../types";
+import { authenticate, clientKey, enforceDailyQuota } from "./apiKeys";
+import { ParsedClassifyRequest, ParsedClassifyTextRequest, parseClassifyRequest, parseClassifyTextRequest } from "./classifyRequest";
+import { describeError, errorHandler, notFoundHandler } from "./errors";
+import { groupsRouter } from "./groups";
+import { createTokenBucket, rateLimit } from "./rateLimit";
+import { withServerCache } from "./resultCache";
+
+export interface ServerOptions {
+  // The upstream classifier; tests can pass a stub instead of Gemini.
+  classify: (image: string, options: ClassifyOptions) => Promise<AnalysisResult>;
+  classifyText: (text: string, options: ClassifyOptions) => Promise<AnalysisResult>;
+  geminiConfigured?: boolean;
+  requireApiKey?: boolean;
+  rateLimitBurst?: number;
+  rateLimitPerMinute?: number;
+  maxImageBytes?: number;
+  resultCacheTtlMs?: number; // 0 (the default) disables the shared result cache
+  now?: () => number;
+}
+
+const DEFAULT_MAX_IMAGE_BYTES = 4 * 1024 * 1024;
+
+export const createApp = ({
+  classify,
+  classifyText,
+  geminiConfigured = true,
+  requireApiKey = false,
+  rateLimitBurst = 10,
+  rateLimitPerMinute = 30,
+  maxImageBytes = DEFAULT_MAX_IMAGE_BYTES,
+  resultCacheTtlMs = 0,
+  now = Date.now,
+}: ServerOptions) => {
+  const classifyCached = resultCacheTtlMs > 0 ? withServerCache(classify, resultCacheTtlMs, now) : classify;
+  // Base64 inflates by 4/3; the rest of the body is small.
+  const classifyBodyLimit = Math.ceil(maxImageBytes * 4 / 3) + 64 * 1024;
+  const bucket = createTokenBucket({ capacity: rateLimitBurst, refillPerMinute: rateLimitPerMinute, now });
+  // Separate from classification so joining a group doesn't use up the classify budget
+  const groupBucket = createTokenBucket({ capacity: rateLimitBurst, refillPerMinute: rateLimitPerMinute, now });
+
+  const validateBody = (req: Request, res: Response, next: NextFunction) => {
+    res.locals.classifyRequest = parseClassifyRequest(req.body, maxImageBytes);
+    next();
+  };
+
+  const validateTextBody = (req: Request, res: Response, next: NextFunction) => {
+    res.locals.classifyTextRequest = parseClassifyTextRequest(req.body);
+    next();
+  };
+
+  // Order matters: a rate-limited or invalid request doesn't count against the key's quota.
+  const guardClassify = [
+    authenticate(requireApiKey),
+    rateLimit(bucket, clientKey),
+    express.json({ limit: classifyBodyLimit }),
+    validateBody,
+    enforceDailyQuota(now),
+  ];
+  const guardClassifyText = [
+    authenticate(requireApiKey),
+    rateLimit(bucket, clientKey),
+    express.json({ limit: "16kb" }),
+    validateTextBody,
+    enforceDailyQuota(now),
+  ];
+
+  const app = express();
+
+  app.get("/health", (_req: Request, res: Response) => {
+    res.json({ status: "ok", geminiConfigured });
+  });
+
+  app.post("/classify", guardClassify, async (_req: Request, res: Response) => {
+    const { image, options } = res.locals.classifyRequest as ParsedClassifyRequest;
+    // Same system instruction, response schema and validation as the browser client.
+    res.json(await classifyCached(image, options));
+  });
+
+  // Classifies a typed item description; shares the rate limit and quota with /classify.
+  app.post("/classify/text", guardClassifyText, async (_req: Request, res: Response) => {
+    const { text, options } = res.locals.classifyTextRequest as ParsedClassifyTextRequest;
+    res.json(await classifyText(text, options));
+  });
+
+  /**
+   * Server-sent events version of /classify. Emits `partial` events as fields
+   * stream in, then a single `result` or `error` event. Closing the connection
+   * cancels the upstream Gemini request.
+   */
+  app.post("/classify/stream", guardClassify, async (_req: Request, res: Response) => {
+    const { image, options } = res.locals.classifyRequest as ParsedClassifyRequest;
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    const send = (event: string, data: unknown) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+    const controller = new AbortController();
+    res.on("close", () => controller.abort());
+
+    try {
+      const result = await classifyCached(image, { ...options, signal: controller.signal, onPartial: partial => send("partial", partial) });
+      send("result", result);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      const { status, payload } = describeError(error);
+      send("error", { status, ...payload });
+    }
+    res.end();
+  });
+
+  // Household/team sync: group codes, shared history and per-member tallies.
+  // Creating and joining take a name or code, and are limited per client so
+  // join codes can't be guessed by brute force. Only scan pushes, which carry
+  // thumbnails, get a large body limit.
+  app.post(["/groups", "/groups/join"], rateLimit(groupBucket, clientKey), express.json({ limit: "4kb" }));
+  app.use("/groups", express.json({ limit: "10mb" }), groupsRouter);
+
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+  return app;
+};
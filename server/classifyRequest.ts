@@ -0,0 +1,158 @@
+import { Clarification, ClassifyOptions } from "../types";
+import { REGION_PACKS } from "../services/regionService";
+import { LOCALES } from "../services/i18n";
+import { detectMimeType } from "../services/preprocessService";
+import { MAX_CLARIFYING_QUESTIONS, MAX_DESCRIPTION_LENGTH, MAX_QUESTION_LENGTH } from "../services/validation";
+import { HttpError } from "./errors";
+
+export interface ClassifyRequestBody {
+  image?: unknown;
+  mimeType?: unknown;
+  multiItem?: unknown;
+  regionId?: unknown;
+  clarifications?: unknown;
+  locale?: unknown;
+  bypassCache?: unknown;
+}
+
+export interface ClassifyTextRequestBody {
+  text?: unknown;
+  regionId?: unknown;
+  clarifications?: unknown;
+  locale?: unknown;
+}
+
+export interface ParsedClassifyRequest {
+  image: string; // Data URL with the sniffed MIME type
+  options: ClassifyOptions;
+}
+
+export interface ParsedClassifyTextRequest {
+  text: string;
+  options: ClassifyOptions;
+}
+
+const CLARIFICATION_ANSWERS: Clarification["answer"][] = ["yes", "no", "unsure"];
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+// Formats Gemini accepts as inline data
+const SUPPORTED_MIME_TYPES = ["image/jpeg", "image/png", "image/webp", "image/heic"];
+
+const parseClarifications = (value: unknown, issues: string[]): Clarification[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.length > MAX_CLARIFYING_QUESTIONS) {
+    issues.push(`"clarifications" must be an array of at most ${MAX_CLARIFYING_QUESTIONS} entries.`);
+    return undefined;
+  }
+  const valid = value.every(entry =>
+    entry
+    && typeof entry.question === "string"
+    && entry.question.length <= MAX_QUESTION_LENGTH
+    && CLARIFICATION_ANSWERS.includes(entry.answer)
+  );
+  if (!valid) {
+    issues.push(`Each clarification needs a "question" of at most ${MAX_QUESTION_LENGTH} characters and an "answer" of ${CLARIFICATION_ANSWERS.join(", ")}.`);
+    return undefined;
+  }
+  return value.map(({ question, answer }) => ({ question, answer }));
+};
+
+const checkRegionAndLocale = (body: { regionId?: unknown; locale?: unknown }, issues: string[]) => {
+  if (body.regionId !== undefined && !REGION_PACKS.some(pack => pack.id === body.regionId)) {
+    issues.push(`"regionId" must be one of ${REGION_PACKS.map(pack => pack.id).join(", ")}.`);
+  }
+  if (body.locale !== undefined && !LOCALES.some(locale => locale.id === body.locale)) {
+    issues.push(`"locale" must be one of ${LOCALES.map(locale => locale.id).join(", ")}.`);
+  }
+};
+
+/**
+ * Checks a /classify body and builds the data URL and classifier options.
+ * Every problem is collected into one 400 (or 413 for an oversized image).
+ */
+export const parseClassifyRequest = (
+  body: ClassifyRequestBody | undefined,
+  maxImageBytes: number
+): ParsedClassifyRequest => {
+  if (!body || typeof body !== "object") {
+    throw new HttpError(400, "invalidRequest", "Request body must be a JSON object.");
+  }
+
+  const issues: string[] = [];
+  const rawImage = typeof body.image === "string" ? body.image.replace(/^data:[^,]*,/, "") : "";
+  let image = "";
+
+  if (!rawImage) {
+    issues.push("\"image\" must be a non-empty base64 string.");
+  } else if (!BASE64_PATTERN.test(rawImage)) {
+    issues.push("\"image\" is not valid base64.");
+  } else {
+    const bytes = Buffer.from(rawImage, "base64");
+    if (bytes.length > maxImageBytes) {
+      throw new HttpError(413, "payloadTooLarge", `Image is ${bytes.length} bytes; the limit is ${maxImageBytes}.`);
+    }
+    // The decoded bytes decide the type, so a wrong or missing mimeType is harmless.
+    const mimeType = detectMimeType(bytes);
+    if (mimeType && SUPPORTED_MIME_TYPES.includes(mimeType)) {
+      image = `data:${mimeType};base64,${rawImage}`;
+    } else {
+      issues.push("\"image\" must be a JPEG, PNG, WebP or HEIC image.");
+    }
+  }
+
+  if (body.mimeType !== undefined && typeof body.mimeType !== "string") {
+    issues.push("\"mimeType\" must be a string.");
+  }
+  (["multiItem", "bypassCache"] as const).forEach(field => {
+    if (body[field] !== undefined && typeof body[field] !== "boolean") {
+      issues.push(`"${field}" must be a boolean.`);
+    }
+  });
+  checkRegionAndLocale(body, issues);
+  const clarifications = parseClarifications(body.clarifications, issues);
+
+  if (issues.length > 0) {
+    throw new HttpError(400, "invalidRequest", "Invalid classification request.", { issues });
+  }
+
+  return {
+    image,
+    options: {
+      multiItem: body.multiItem === true,
+      regionId: body.regionId as string | undefined,
+      clarifications,
+      locale: body.locale as string | undefined,
+      bypassCache: body.bypassCache === true,
+    },
+  };
+};
+
+/** Checks a /classify/text body: a short item description plus the usual options. */
+export const parseClassifyTextRequest = (
+  body: ClassifyTextRequestBody | undefined
+): ParsedClassifyTextRequest => {
+  if (!body || typeof body !== "object") {
+    throw new HttpError(400, "invalidRequest", "Request body must be a JSON object.");
+  }
+
+  const issues: string[] = [];
+  const text = typeof body.text === "string" ? body.text.trim() : "";
+  if (!text || text.length > MAX_DESCRIPTION_LENGTH) {
+    issues.push(`"text" must be a description of 1 to ${MAX_DESCRIPTION_LENGTH} characters.`);
+  }
+  checkRegionAndLocale(body, issues);
+  const clarifications = parseClarifications(body.clarifications, issues);
+
+  if (issues.length > 0) {
+    throw new HttpError(400, "invalidRequest", "Invalid classification request.", { issues });
+  }
+
+  return {
+    text,
+    options: {
+      regionId: body.regionId as string | undefined,
+      clarifications,
+      locale: body.locale as string | undefined,
+    },
+  };
+};
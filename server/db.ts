@@ -0,0 +1,68 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS groups (
+  id TEXT PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  created_at INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS members (
+  id TEXT PRIMARY KEY,
+  group_id TEXT NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  created_at INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS scans (
+  id TEXT NOT NULL,
+  group_id TEXT NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+  member_id TEXT NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+  timestamp INTEGER NOT NULL,
+  category TEXT NOT NULL,
+  thumbnail TEXT,
+  result_json TEXT NOT NULL,
+  PRIMARY KEY (group_id, id)
+);
+CREATE INDEX IF NOT EXISTS scans_group_timestamp ON scans (group_id, timestamp);
+CREATE TABLE IF NOT EXISTS api_keys (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  daily_quota INTEGER NOT NULL,
+  created_at INTEGER NOT NULL,
+  revoked_at INTEGER
+);
+CREATE TABLE IF NOT EXISTS api_key_usage (
+  key_id TEXT NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  day TEXT NOT NULL,
+  count INTEGER NOT NULL,
+  PRIMARY KEY (key_id, day)
+);
+CREATE TABLE IF NOT EXISTS result_cache (
+  key TEXT PRIMARY KEY,
+  result_json TEXT NOT NULL,
+  created_at INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS result_cache_created_at ON result_cache (created_at);
+`;
+
+let db: Database.Database | null = null;
+
+/** Opens (and on first use creates) the sync, API key and result cache database; `:memory:` works for throwaway runs. */
+export const getDatabase = (): Database.Database => {
+  if (!db) {
+    // Read lazily so values loaded by dotenv at startup are honoured.
+    const dbPath = process.env.SYNC_DB_PATH || path.join("data", "eco-sort.db");
+    if (dbPath !== ":memory:") {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+    db = new Database(dbPath);
+    db.pragma("journal_mode = WAL");
+    db.pragma("foreign_keys = ON");
+    db.exec(SCHEMA);
+  }
+  return db;
+};
@@ -0,0 +1,56 @@
+import { NextFunction, Request, Response } from "express";
+import { ClassifierErrorCode, ClassifierErrorPayload, toErrorPayload } from "../services/classifierErrors";
+
+/** A failure the server answers with its own status and error code. */
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    public code: ClassifierErrorCode,
+    message: string,
+    public details: Pick<ClassifierErrorPayload, "issues" | "retryAfterMs"> = {}
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export const sendError = (res: Response, status: number, payload: ClassifierErrorPayload) => {
+  if (payload.retryAfterMs) res.set("Retry-After", String(Math.ceil(payload.retryAfterMs / 1000)));
+  res.status(status).json(payload);
+};
+
+/** Maps a thrown error to the status and JSON body every route responds with. */
+export const describeError = (error: unknown): { status: number; payload: ClassifierErrorPayload } => {
+  if (error instanceof HttpError) {
+    return {
+      status: error.status,
+      payload: { error: error.message, code: error.code, retryable: error.code === "rateLimit", ...error.details },
+    };
+  }
+
+  // Failures raised by express.json() before a route runs
+  const type = (error as { type?: string } | null)?.type;
+  if (type === "entity.too.large") {
+    return { status: 413, payload: { error: "Request body is too large.", code: "payloadTooLarge", retryable: false } };
+  }
+  if (type === "entity.parse.failed") {
+    return { status: 400, payload: { error: "Request body is not valid JSON.", code: "invalidRequest", retryable: false } };
+  }
+
+  return toErrorPayload(error);
+};
+
+export const notFoundHandler = (req: Request, _res: Response, next: NextFunction) => {
+  next(new HttpError(404, "notFound", `No route for ${req.method} ${req.path}.`));
+};
+
+// Express recognises error handlers by their four parameters.
+export const errorHandler = (error: unknown, _req: Request, res: Response, next: NextFunction) => {
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+  const { status, payload } = describeError(error);
+  if (status >= 500) console.error("Request failed:", error);
+  sendError(res, status, payload);
+};
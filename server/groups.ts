@@ -0,0 +1,243 @@
+import { NextFunction, Request, Response, Router } from "express";
+import crypto from "crypto";
+import { getDatabase } from "./db";
+import { HttpError } from "./errors";
+import { getRegionPack } from "../services/regionService";
+import { AnalysisValidationError, validateAnalysisResult } from "../services/validation";
+import { Group, GroupMember, MemberTally, ScanHistoryEntry, SharedScan, WasteCategory } from "../types";
+
+// No look-alike characters (0/O, 1/I/L) so codes survive being read aloud
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 6;
+const MAX_NAME_LENGTH = 40;
+const MAX_SCANS_PER_PUSH = 200;
+const MAX_SCANS_PER_PULL = 500;
+const MAX_THUMBNAIL_LENGTH = 100_000;
+// Allowance for device clocks that run behind the server's
+const MAX_CLOCK_SKEW_MS = 10 * 60 * 1000;
+
+interface AuthenticatedLocals {
+  group: Group;
+  member: GroupMember;
+  joinedAt: number;
+}
+
+const hashToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+const generateCode = () =>
+  Array.from(crypto.randomBytes(CODE_LENGTH), byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join("");
+
+const normalizeCode = (value: unknown) =>
+  typeof value === "string" ? value.toUpperCase().replace(/[^A-Z0-9]/g, "") : "";
+
+const parseName = (value: unknown): string | null => {
+  const name = typeof value === "string" ? value.trim().slice(0, MAX_NAME_LENGTH) : "";
+  return name || null;
+};
+
+const emptyCounts = (): Record<WasteCategory, number> => ({
+  [WasteCategory.RECYCLE]: 0,
+  [WasteCategory.COMPOST]: 0,
+  [WasteCategory.HAZARD]: 0,
+  [WasteCategory.TRASH]: 0,
+  [WasteCategory.UNKNOWN]: 0,
+});
+
+/** Adds a member to a group and returns their plaintext token; only its hash is stored. */
+const addMember = (groupId: string, name: string) => {
+  const member: GroupMember = { id: crypto.randomUUID(), name };
+  const token = crypto.randomBytes(32).toString("base64url");
+  getDatabase()
+    .prepare("INSERT INTO members (id, group_id, name, token_hash, created_at) VALUES (?, ?, ?, ?, ?)")
+    .run(member.id, groupId, name, hashToken(token), Date.now());
+  return { member, token };
+};
+
+const requireMember = (req: Request, res: Response, next: NextFunction) => {
+  const token = req.headers.authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token) {
+    throw new HttpError(401, "unauthorized", "Missing bearer token.");
+  }
+
+  const row = getDatabase().prepare(`
+    SELECT m.id AS memberId, m.name AS memberName, m.created_at AS joinedAt, g.id AS groupId, g.code, g.name AS groupName
+    FROM members m JOIN groups g ON g.id = m.group_id
+    WHERE m.token_hash = ?
+  `).get(hashToken(token)) as { memberId: string; memberName: string; joinedAt: number; groupId: string; code: string; groupName: string } | undefined;
+
+  if (!row) {
+    throw new HttpError(401, "unauthorized", "Unknown or revoked token.");
+  }
+
+  const locals: AuthenticatedLocals = {
+    group: { id: row.groupId, code: row.code, name: row.groupName },
+    member: { id: row.memberId, name: row.memberName },
+    joinedAt: row.joinedAt,
+  };
+  Object.assign(res.locals, locals);
+  next();
+};
+
+/** Re-validates a pushed scan the same way classifier output is validated; returns null if unusable. */
+const parseScan = (value: unknown): ScanHistoryEntry | null => {
+  if (!value || typeof value !== "object") return null;
+  const record = value as Record<string, unknown>;
+  if (typeof record.id !== "string" || !record.id || record.id.length > 64) return null;
+  if (typeof record.timestamp !== "number" || !Number.isFinite(record.timestamp)) return null;
+
+  try {
+    const raw = record.result as Record<string, unknown> | undefined;
+    const regionId = typeof raw?.regionId === "string" ? raw.regionId : undefined;
+    const result = validateAnalysisResult(raw, getRegionPack(regionId));
+    const thumbnail = typeof record.thumbnail === "string"
+      && record.thumbnail.startsWith("data:image/")
+      && record.thumbnail.length <= MAX_THUMBNAIL_LENGTH
+      ? record.thumbnail
+      : null;
+    return { id: record.id, timestamp: record.timestamp, thumbnail, result };
+  } catch (error) {
+    if (error instanceof AnalysisValidationError) return null;
+    throw error;
+  }
+};
+
+export const groupsRouter = Router();
+
+groupsRouter.post("/", (req: Request, res: Response) => {
+  const groupName = parseName(req.body?.groupName);
+  const memberName = parseName(req.body?.memberName);
+  if (!groupName || !memberName) {
+    throw new HttpError(400, "invalidRequest", "Request body must include \"groupName\" and \"memberName\".");
+  }
+
+  const db = getDatabase();
+  const create = db.transaction(() => {
+    const group: Group = { id: crypto.randomUUID(), code: generateCode(), name: groupName };
+    // Codes are random; on the rare clash just draw another.
+    while (db.prepare("SELECT 1 FROM groups WHERE code = ?").get(group.code)) {
+      group.code = generateCode();
+    }
+    db.prepare("INSERT INTO groups (id, code, name, created_at) VALUES (?, ?, ?, ?)")
+      .run(group.id, group.code, group.name, Date.now());
+    return { group, ...addMember(group.id, memberName) };
+  });
+
+  res.status(201).json(create());
+});
+
+groupsRouter.post("/join", (req: Request, res: Response) => {
+  const code = normalizeCode(req.body?.code);
+  const memberName = parseName(req.body?.memberName);
+  if (!code || !memberName) {
+    throw new HttpError(400, "invalidRequest", "Request body must include \"code\" and \"memberName\".");
+  }
+
+  const group = getDatabase().prepare("SELECT id, code, name FROM groups WHERE code = ?").get(code) as Group | undefined;
+  if (!group) {
+    throw new HttpError(404, "notFound", "No group with that code.");
+  }
+
+  res.status(201).json({ group, ...addMember(group.id, memberName) });
+});
+
+groupsRouter.get("/me", requireMember, (_req: Request, res: Response) => {
+  const { group, member } = res.locals as AuthenticatedLocals;
+  const members = getDatabase()
+    .prepare("SELECT id, name FROM members WHERE group_id = ? ORDER BY created_at")
+    .all(group.id) as GroupMember[];
+  res.json({ group, member, members });
+});
+
+// Leaving revokes this device's token; the member's shared scans stay with the group.
+groupsRouter.delete("/me", requireMember, (_req: Request, res: Response) => {
+  const { member } = res.locals as AuthenticatedLocals;
+  getDatabase().prepare("UPDATE members SET token_hash = ? WHERE id = ?")
+    .run(`revoked:${crypto.randomUUID()}`, member.id);
+  res.status(204).end();
+});
+
+groupsRouter.post("/scans", requireMember, (req: Request, res: Response) => {
+  const { group, member, joinedAt } = res.locals as AuthenticatedLocals;
+  const scans = Array.isArray(req.body?.scans) ? req.body.scans : null;
+  if (!scans) {
+    throw new HttpError(400, "invalidRequest", "Request body must include a \"scans\" array.");
+  }
+  if (scans.length > MAX_SCANS_PER_PUSH) {
+    throw new HttpError(413, "payloadTooLarge", `Push at most ${MAX_SCANS_PER_PUSH} scans at a time.`);
+  }
+
+  const db = getDatabase();
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO scans (id, group_id, member_id, timestamp, category, thumbnail, result_json)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertAll = db.transaction((entries: ScanHistoryEntry[]) => {
+    let inserted = 0;
+    entries.forEach(entry => {
+      inserted += insert.run(entry.id, group.id, member.id, entry.timestamp, entry.result.category, entry.thumbnail, JSON.stringify(entry.result)).changes;
+    });
+    return inserted;
+  });
+
+  // Scans from before the member joined are their private history, not the group's.
+  const valid = scans.map(parseScan).filter((entry: ScanHistoryEntry | null): entry is ScanHistoryEntry =>
+    entry !== null && entry.timestamp >= joinedAt - MAX_CLOCK_SKEW_MS);
+  const inserted = insertAll(valid);
+  res.json({ received: scans.length, inserted, rejected: scans.length - valid.length });
+});
+
+// Keyset cursor: the last scan of a page, so scans sharing a timestamp aren't skipped.
+const parseCursor = (value: unknown): { timestamp: number; id: string } | null => {
+  const match = typeof value === "string" ? value.match(/^(\d+):(.+)$/) : null;
+  return match ? { timestamp: Number(match[1]), id: match[2] } : null;
+};
+
+/**
+ * Oldest first, in pages of at most `limit` scans. `since` (ms) starts after
+ * that time; each page's `nextCursor` fetches the next one and is null on the
+ * last page.
+ */
+groupsRouter.get("/scans", requireMember, (req: Request, res: Response) => {
+  const { group } = res.locals as AuthenticatedLocals;
+  // Without a cursor, "\uffff" sorts after every id, so scans at exactly `since` are skipped too
+  const cursor = parseCursor(req.query.cursor) || { timestamp: Number(req.query.since) || 0, id: "\uffff" };
+  const limit = Math.min(MAX_SCANS_PER_PULL, Math.max(1, Math.floor(Number(req.query.limit)) || MAX_SCANS_PER_PULL));
+
+  // One extra row tells whether another page follows
+  const rows = getDatabase().prepare(`
+    SELECT s.id, s.timestamp, s.thumbnail, s.result_json, m.id AS memberId, m.name AS memberName
+    FROM scans s JOIN members m ON m.id = s.member_id
+    WHERE s.group_id = ? AND (s.timestamp > ? OR (s.timestamp = ? AND s.id > ?))
+    ORDER BY s.timestamp, s.id
+    LIMIT ?
+  `).all(group.id, cursor.timestamp, cursor.timestamp, cursor.id, limit + 1) as { id: string; timestamp: number; thumbnail: string | null; result_json: string; memberId: string; memberName: string }[];
+
+  const scans: SharedScan[] = rows.slice(0, limit).map(row => ({
+    id: row.id,
+    timestamp: row.timestamp,
+    thumbnail: row.thumbnail,
+    result: JSON.parse(row.result_json),
+    memberId: row.memberId,
+    memberName: row.memberName,
+  }));
+  const last = scans[scans.length - 1];
+  res.json({ scans, nextCursor: rows.length > limit ? `${last.timestamp}:${last.id}` : null });
+});
+
+groupsRouter.get("/tallies", requireMember, (_req: Request, res: Response) => {
+  const { group } = res.locals as AuthenticatedLocals;
+  const db = getDatabase();
+  const members = db.prepare("SELECT id, name FROM members WHERE group_id = ? ORDER BY created_at").all(group.id) as GroupMember[];
+  const rows = db.prepare(`
+    SELECT member_id AS memberId, category, COUNT(*) AS count
+    FROM scans WHERE group_id = ?
+    GROUP BY member_id, category
+  `).all(group.id) as { memberId: string; category: WasteCategory; count: number }[];
+
+  const tallies: MemberTally[] = members.map(member => ({ member, counts: emptyCounts() }));
+  rows.forEach(row => {
+    const tally = tallies.find(candidate => candidate.member.id === row.memberId);
+    if (tally && row.category in tally.counts) tally.counts[row.category] = row.count;
+  });
+  res.json({ tallies });
+});
@@ -0,0 +1,28 @@
+import dotenv from "dotenv";
+import { analyzeDescription, analyzeImage } from "../services/geminiService";
+import { createApp } from "./app";
+
+dotenv.config({ path: [".env.local", ".env"], quiet: true });
+
+const PORT = Number(process.env.PORT) || 5000;
+
+const readNumber = (value: string | undefined) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+const app = createApp({
+  classify: (image, options) => analyzeImage(image, options, process.env.GEMINI_API_KEY),
+  classifyText: (text, options) => analyzeDescription(text, options, process.env.GEMINI_API_KEY),
+  geminiConfigured: Boolean(process.env.GEMINI_API_KEY),
+  requireApiKey: process.env.REQUIRE_API_KEY === "true",
+  rateLimitBurst: readNumber(process.env.RATE_LIMIT_BURST),
+  rateLimitPerMinute: readNumber(process.env.RATE_LIMIT_PER_MINUTE),
+  maxImageBytes: readNumber(process.env.MAX_UPLOAD_BYTES),
+  resultCacheTtlMs: (readNumber(process.env.SERVER_CACHE_TTL_HOURS) ?? 0) * 60 * 60 * 1000,
+});
+
+// Behind a reverse proxy, set TRUST_PROXY (e.g. "1") so rate limits use the real client address.
+if (process.env.TRUST_PROXY) app.set("trust proxy", readNumber(process.env.TRUST_PROXY) ?? process.env.TRUST_PROXY);
+
+app.listen(PORT, () => console.log(`Server running on port ${PORT}`));
@@ -0,0 +1,56 @@
+import { parseArgs } from "util";
+import dotenv from "dotenv";
+import { DEFAULT_DAILY_QUOTA, createApiKey, listApiKeys, revokeApiKey } from "./apiKeys";
+
+dotenv.config({ path: [".env.local", ".env"], quiet: true });
+
+const USAGE = `
+Usage: npm run keys -- <command> [options]
+
+Commands:
+  create <name> [--quota <n>]  Issue a key (default quota: ${DEFAULT_DAILY_QUOTA} requests per UTC day)
+  list                         Show every key with today's usage
+  revoke <id>                  Revoke a key; requests using it get a 401
+
+Keys are stored hashed in SYNC_DB_PATH (default data/eco-sort.db).
+`;
+
+const main = () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      quota: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  const [command, argument] = positionals;
+
+  if (command === "create" && argument) {
+    const quota = values.quota ? Number(values.quota) : DEFAULT_DAILY_QUOTA;
+    if (!Number.isInteger(quota) || quota <= 0) {
+      throw new Error(`--quota must be a positive whole number, got ${values.quota}`);
+    }
+    const { apiKey, key } = createApiKey(argument, quota);
+    console.log(`Created key ${apiKey.id} for "${apiKey.name}" (${quota} requests/day):\n\n  ${key}\n\nIt is shown only once.`);
+  } else if (command === "list") {
+    const keys = listApiKeys();
+    if (keys.length === 0) console.log("No API keys issued yet.");
+    keys.forEach(key => {
+      const status = key.revokedAt ? `revoked ${new Date(key.revokedAt).toISOString()}` : `${key.usedToday}/${key.dailyQuota} today`;
+      console.log(`${key.id}  ${key.name.padEnd(24)}  ${status}`);
+    });
+  } else if (command === "revoke" && argument) {
+    if (!revokeApiKey(argument)) throw new Error(`No active key with id ${argument}`);
+    console.log(`Revoked key ${argument}.`);
+  } else {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+};
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,67 @@
+import { NextFunction, Request, Response } from "express";
+import { HttpError } from "./errors";
+
+export interface TokenBucketOptions {
+  capacity: number; // Burst size
+  refillPerMinute: number;
+  now?: () => number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Full buckets are dropped once this many clients are tracked.
+const PRUNE_THRESHOLD = 10_000;
+
+/**
+ * In-memory token buckets, one per client key. Each request takes a token;
+ * tokens refill continuously up to `capacity`.
+ */
+export const createTokenBucket = ({ capacity, refillPerMinute, now = Date.now }: TokenBucketOptions) => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = refillPerMinute / 60_000;
+
+  const refill = (bucket: Bucket, at: number) => {
+    bucket.tokens = Math.min(capacity, bucket.tokens + (at - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = at;
+  };
+
+  const prune = (at: number) => {
+    buckets.forEach((bucket, key) => {
+      refill(bucket, at);
+      if (bucket.tokens >= capacity) buckets.delete(key);
+    });
+  };
+
+  /** Takes a token for `key`; when none is left, says how long until one is. */
+  const take = (key: string): { allowed: boolean; retryAfterMs: number } => {
+    const at = now();
+    if (buckets.size > PRUNE_THRESHOLD) prune(at);
+
+    const bucket = buckets.get(key) || { tokens: capacity, updatedAt: at };
+    refill(bucket, at);
+    buckets.set(key, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return { allowed: true, retryAfterMs: 0 };
+    }
+    return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+  };
+
+  return { take };
+};
+
+export type TokenBucket = ReturnType<typeof createTokenBucket>;
+
+/** Rejects requests from clients whose bucket is empty; `clientKey` reads res.locals set by earlier middleware. */
+export const rateLimit = (bucket: TokenBucket, clientKey: (req: Request, res: Response) => string) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const { allowed, retryAfterMs } = bucket.take(clientKey(req, res));
+    if (!allowed) {
+      throw new HttpError(429, "rateLimit", "Too many requests. Slow down and try again shortly.", { retryAfterMs });
+    }
+    next();
+  };
@@ -0,0 +1,34 @@
+import crypto from "crypto";
+import { AnalysisResult, ClassifyOptions } from "../types";
+import { cacheContext, isCacheable } from "../services/resultCache";
+import { getDatabase } from "./db";
+
+type Classify = (image: string, options: ClassifyOptions) => Promise<AnalysisResult>;
+
+/**
+ * Wraps the upstream classifier with a cache shared by every client. Unlike
+ * the browser cache it matches exact image bytes only: the server has no
+ * image decoder, and a perceptual hash sent by a client can't be trusted not
+ * to poison results for everyone else.
+ */
+export const withServerCache = (classify: Classify, ttlMs: number, now: () => number = Date.now): Classify =>
+  async (image, options) => {
+    if (options.clarifications?.length) return classify(image, options);
+
+    const db = getDatabase();
+    const key = crypto.createHash("sha256").update(cacheContext(options)).update(image).digest("hex");
+
+    if (!options.bypassCache) {
+      const row = db.prepare("SELECT result_json, created_at FROM result_cache WHERE key = ? AND created_at > ?")
+        .get(key, now() - ttlMs) as { result_json: string; created_at: number } | undefined;
+      if (row) return { ...JSON.parse(row.result_json), cachedAt: row.created_at };
+    }
+
+    const result = await classify(image, options);
+    if (isCacheable(result)) {
+      db.prepare("DELETE FROM result_cache WHERE created_at <= ?").run(now() - ttlMs);
+      db.prepare("INSERT OR REPLACE INTO result_cache (key, result_json, created_at) VALUES (?, ?, ?)")
+        .run(key, JSON.stringify(result), now());
+    }
+    return result;
+  };
@@ -0,0 +1,70 @@
+import { AccessibilityPrefs, AnalysisResult, WasteCategory } from "../types";
+import { MessageKey, Translator } from "./i18n";
+import { getBinForResult, getRegionPack } from "./regionService";
+
+const STORAGE_KEY = "eco-sort:accessibility";
+
+const prefersMedia = (query: string) =>
+  typeof window !== "undefined" && !!window.matchMedia?.(query).matches;
+
+// Until the user chooses, follow the operating system's settings.
+const defaultPrefs = (): AccessibilityPrefs => ({
+  speakResults: false,
+  reduceMotion: prefersMedia("(prefers-reduced-motion: reduce)"),
+  highContrast: prefersMedia("(prefers-contrast: more)"),
+});
+
+export const loadAccessibilityPrefs = (): AccessibilityPrefs => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || "null");
+    return { ...defaultPrefs(), ...(saved && typeof saved === "object" ? saved : {}) };
+  } catch {
+    return defaultPrefs();
+  }
+};
+
+export const saveAccessibilityPrefs = (prefs: AccessibilityPrefs) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(prefs));
+  } catch (e) {
+    console.error("Accessibility settings save error:", e);
+  }
+};
+
+/** The themes are plain CSS in index.html, keyed off classes on <html>. */
+export const applyAccessibilityPrefs = (prefs: AccessibilityPrefs) => {
+  document.documentElement.classList.toggle("reduce-motion", prefs.reduceMotion);
+  document.documentElement.classList.toggle("high-contrast", prefs.highContrast);
+};
+
+/**
+ * One sentence a screen reader or the speech synthesizer can read out: the
+ * bin, the item and what to do with it. Hazards lead with a warning.
+ */
+export const describeResult = (result: AnalysisResult, t: Translator): string => {
+  const bin = getBinForResult(result, getRegionPack(result.regionId));
+  const params = {
+    bin: bin?.label || t(`category.${result.category}` as MessageKey),
+    item: result.itemName,
+    action: result.disposalAction,
+  };
+  return result.category === WasteCategory.HAZARD
+    ? t('a11y.hazardResult', params)
+    : t('a11y.result', params);
+};
+
+export const isSpeechSupported = () =>
+  typeof window !== "undefined" && "speechSynthesis" in window && "SpeechSynthesisUtterance" in window;
+
+/** Reads text aloud in the given language, interrupting anything already being read. */
+export const speak = (text: string, lang: string) => {
+  if (!isSpeechSupported()) return;
+  window.speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = lang;
+  window.speechSynthesis.speak(utterance);
+};
+
+export const stopSpeaking = () => {
+  if (isSpeechSupported()) window.speechSynthesis.cancel();
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { decodeScanline, expandUpcE, isValidGtin, normalizeGtin } from "./barcodeService";
+
+// EAN encoding tables, written out again so the tests don't depend on the decoder's copy
+const L_PATTERNS = ["3211", "2221", "2122", "1411", "1132", "1231", "1114", "1312", "1213", "3112"];
+const G_PATTERNS = L_PATTERNS.map(pattern => pattern.split("").reverse().join(""));
+const FIRST_DIGIT_PARITY = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"];
+
+// Renders an EAN-13 or EAN-8 code as one row of luminance values. A fractional
+// module width gives bars uneven pixel widths, like a real camera frame.
+const renderEan = (code: string, moduleWidth = 3): number[] => {
+  const isEan13 = code.length === 13;
+  const parity = isEan13 ? FIRST_DIGIT_PARITY[Number(code[0])] : "LLLL";
+  const digits = isEan13 ? code.slice(1) : code;
+  const half = digits.length / 2;
+
+  const digitWidths = (digit: string, index: number) =>
+    (index < half && parity[index] === "G" ? G_PATTERNS : L_PATTERNS)[Number(digit)].split("").map(Number);
+  const left = digits.slice(0, half).split("").flatMap((digit, index) => digitWidths(digit, index));
+  const right = digits.slice(half).split("").flatMap(digit => digitWidths(digit, half));
+  const runs = [1, 1, 1, ...left, 1, 1, 1, 1, 1, ...right, 1, 1, 1];
+
+  const row: number[] = new Array(30).fill(255);
+  let modules = 0;
+  runs.forEach((width, index) => {
+    const pixels = Math.round((modules + width) * moduleWidth) - Math.round(modules * moduleWidth);
+    row.push(...new Array(pixels).fill(index % 2 ? 255 : 0));
+    modules += width;
+  });
+  return [...row, ...new Array(30).fill(255)];
+};
+
+describe("isValidGtin", () => {
+  it("checks the GS1 check digit", () => {
+    expect(isValidGtin("4006381333931")).toBe(true);
+    expect(isValidGtin("4006381333932")).toBe(false);
+    expect(isValidGtin("1234567")).toBe(false);
+  });
+});
+
+describe("normalizeGtin", () => {
+  it("pads EAN-13, UPC-A and EAN-8 codes to 13 digits", () => {
+    expect(normalizeGtin("4006381333931")).toBe("4006381333931");
+    expect(normalizeGtin("0 36000-29145 2")).toBe("0036000291452");
+    expect(normalizeGtin("96385074")).toBe("0000096385074");
+  });
+
+  it("expands UPC-E codes to their UPC-A GTIN", () => {
+    expect(expandUpcE("01234565")).toBe("012345000065");
+    expect(normalizeGtin("04252614", "upc_e")).toBe("0042100005264");
+  });
+
+  it("uses the reported format for 8 digits that read as both EAN-8 and UPC-E", () => {
+    expect(normalizeGtin("01234565", "upc_e")).toBe("0012345000065");
+    expect(normalizeGtin("01234565", "ean_8")).toBe("0000001234565");
+    // Typed codes have no format, so EAN-8 wins
+    expect(normalizeGtin("01234565")).toBe("0000001234565");
+  });
+
+  it("rejects invalid input", () => {
+    expect(normalizeGtin("4006381333932")).toBeNull();
+    expect(normalizeGtin("abc")).toBeNull();
+    expect(normalizeGtin("12345")).toBeNull();
+  });
+});
+
+describe("decodeScanline", () => {
+  it("decodes an EAN-13 row", () => {
+    expect(decodeScanline(renderEan("4006381333931"))).toBe("4006381333931");
+  });
+
+  it("decodes an EAN-8 row", () => {
+    expect(decodeScanline(renderEan("96385074"))).toBe("96385074");
+  });
+
+  it("decodes a row read right to left", () => {
+    expect(decodeScanline(renderEan("4006381333931").reverse())).toBe("4006381333931");
+  });
+
+  it("tolerates uneven bar widths", () => {
+    expect(decodeScanline(renderEan("4006381333931", 2.6))).toBe("4006381333931");
+  });
+
+  it("returns null for a bad check digit or a low-contrast row", () => {
+    expect(decodeScanline(renderEan("4006381333932"))).toBeNull();
+    expect(decodeScanline(renderEan("4006381333931").map(value => 100 + value / 10))).toBeNull();
+  });
+});
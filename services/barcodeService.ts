@@ -0,0 +1,262 @@
+// EAN-13 / EAN-8 / UPC barcode reading: the native BarcodeDetector where the
+// browser has one, otherwise a small scanline decoder over the camera frame.
+
+// Minimal typing for the Shape Detection API, which TypeScript's DOM lib lacks.
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect: (source: CanvasImageSource) => Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats?: () => Promise<string[]>;
+}
+
+const RETAIL_FORMATS = ["ean_13", "ean_8", "upc_a", "upc_e"];
+
+/** True when the digits end in a valid GS1 check digit (any GTIN length). */
+export const isValidGtin = (digits: string): boolean => {
+  if (!/^\d{8,14}$/.test(digits)) return false;
+  let sum = 0;
+  for (let index = digits.length - 2, weight = 3; index >= 0; index--, weight = 4 - weight) {
+    sum += Number(digits[index]) * weight;
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+};
+
+/** Expands an 8-digit UPC-E code to its 12-digit UPC-A form. */
+export const expandUpcE = (upcE: string): string => {
+  const [system, d1, d2, d3, d4, d5, d6, check] = upcE;
+  const manufacturerAndProduct =
+    d6 <= "2" ? `${d1}${d2}${d6}0000${d3}${d4}${d5}`
+    : d6 === "3" ? `${d1}${d2}${d3}00000${d4}${d5}`
+    : d6 === "4" ? `${d1}${d2}${d3}${d4}00000${d5}`
+    : `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  return `${system}${manufacturerAndProduct}${check}`;
+};
+
+/**
+ * Normalizes a scanned or typed EAN-13, EAN-8, UPC-A or UPC-E code to a
+ * 13-digit GTIN, or null when it isn't a valid retail barcode. `format` is
+ * the symbology the scanner reported, which settles 8-digit codes.
+ */
+export const normalizeGtin = (value: string, format?: string): string | null => {
+  const digits = value.replace(/[\s-]/g, "");
+  if (!/^\d+$/.test(digits)) return null;
+
+  // Without a format, 8 digits is ambiguous: try EAN-8 first, then UPC-E (which always starts with 0 or 1)
+  const candidates = digits.length !== 8 ? [digits]
+    : format === "upc_e" ? [expandUpcE(digits)]
+    : format === "ean_8" ? [digits]
+    : [digits, ...(/^[01]/.test(digits) ? [expandUpcE(digits)] : [])];
+
+  const valid = candidates.find(candidate => [8, 12, 13].includes(candidate.length) && isValidGtin(candidate));
+  return valid ? valid.padStart(13, "0") : null;
+};
+
+// Module widths of each digit's bar pattern for the left (odd parity "L" and
+// even parity "G") and right ("R") halves; R patterns are L with colours swapped.
+const L_PATTERNS = ["3211", "2221", "2122", "1411", "1132", "1231", "1114", "1312", "1213", "3112"];
+const G_PATTERNS = L_PATTERNS.map(pattern => pattern.split("").reverse().join(""));
+// Which left-half digits use G encoding, indexed by the implied first EAN-13 digit
+const FIRST_DIGIT_PARITY = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"];
+
+interface DigitMatch {
+  digit: number;
+  parity: "L" | "G";
+  error: number;
+}
+
+/** Closest digit for four bar/space widths, by normalized width error. */
+const matchDigit = (widths: number[], allowG: boolean): DigitMatch => {
+  const total = widths.reduce((sum, width) => sum + width, 0);
+  let best: DigitMatch = { digit: -1, parity: "L", error: Infinity };
+  const tables: ["L" | "G", string[]][] = allowG ? [["L", L_PATTERNS], ["G", G_PATTERNS]] : [["L", L_PATTERNS]];
+  for (const [parity, table] of tables) {
+    table.forEach((pattern, digit) => {
+      const error = widths.reduce((sum, width, index) => sum + Math.abs(width / total * 7 - Number(pattern[index])), 0);
+      if (error < best.error) best = { digit, parity, error };
+    });
+  }
+  return best;
+};
+
+// A guard is a run of equal-width bars and spaces, each about one module wide.
+const isGuard = (runs: number[], start: number, count: number, moduleWidth: number) => {
+  for (let index = start; index < start + count; index++) {
+    if (Math.abs(runs[index] - moduleWidth) > moduleWidth * 0.6) return false;
+  }
+  return true;
+};
+
+const MAX_DIGIT_ERROR = 1.5;
+
+/**
+ * Tries to decode an EAN-13 or EAN-8 symbol starting at `start`, where
+ * `runs[start]` is the first bar of the start guard. A `reversed` symbol was
+ * read right to left (e.g. an upside-down product), so its halves, digit order
+ * and each digit's widths are mirrored.
+ */
+const decodeAt = (runs: number[], start: number, digitsPerHalf: number, reversed: boolean): string | null => {
+  // start guard (3) + left half + centre guard (5) + right half + end guard (3)
+  const length = 3 + digitsPerHalf * 4 + 5 + digitsPerHalf * 4 + 3;
+  if (start + length > runs.length) return null;
+
+  const moduleWidth = (runs[start] + runs[start + 1] + runs[start + 2]) / 3;
+  if (!isGuard(runs, start, 3, moduleWidth)) return null;
+
+  const firstStart = start + 3;
+  const centreStart = firstStart + digitsPerHalf * 4;
+  const secondStart = centreStart + 5;
+  if (!isGuard(runs, centreStart, 5, moduleWidth) || !isGuard(runs, secondStart + digitsPerHalf * 4, 3, moduleWidth)) {
+    return null;
+  }
+
+  const groups = (offset: number) => Array.from({ length: digitsPerHalf }, (_, index) => {
+    const widths = runs.slice(offset + index * 4, offset + index * 4 + 4);
+    return reversed ? widths.reverse() : widths;
+  });
+  const [leftWidths, rightWidths] = reversed
+    ? [groups(secondStart).reverse(), groups(firstStart).reverse()]
+    : [groups(firstStart), groups(secondStart)];
+
+  // R patterns have the same widths as L, so the right half only needs the L table.
+  const left = leftWidths.map(widths => matchDigit(widths, digitsPerHalf === 6));
+  const right = rightWidths.map(widths => matchDigit(widths, false));
+  if ([...left, ...right].some(match => match.error > MAX_DIGIT_ERROR)) return null;
+
+  let prefix = "";
+  if (digitsPerHalf === 6) {
+    const parity = left.map(match => match.parity).join("");
+    const firstDigit = FIRST_DIGIT_PARITY.indexOf(parity);
+    if (firstDigit === -1) return null;
+    prefix = String(firstDigit);
+  }
+
+  const code = prefix + [...left, ...right].map(match => match.digit).join("");
+  return isValidGtin(code) ? code : null;
+};
+
+// Widths of alternating dark and light runs, starting at the first dark pixel.
+const toRuns = (row: ArrayLike<number>, threshold: number): number[] => {
+  const runs: number[] = [];
+  let index = 0;
+  while (index < row.length && row[index] >= threshold) index++; // Leading quiet zone
+
+  let dark = true;
+  let runLength = 0;
+  for (; index < row.length; index++) {
+    if ((row[index] < threshold) === dark) {
+      runLength++;
+    } else {
+      runs.push(runLength);
+      dark = !dark;
+      runLength = 1;
+    }
+  }
+  if (runLength) runs.push(runLength);
+  return runs;
+};
+
+/**
+ * Decodes one row of pixel luminance values, in either reading direction.
+ * Bars are darker than the row's mid-range.
+ */
+export const decodeScanline = (row: ArrayLike<number>): string | null => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let index = 0; index < row.length; index++) {
+    min = Math.min(min, row[index]);
+    max = Math.max(max, row[index]);
+  }
+  if (max - min < 40) return null; // Too little contrast to hold a barcode
+  const threshold = (min + max) / 2;
+
+  const runs = toRuns(row, threshold);
+  // Bars sit at even indices because the runs start dark.
+  for (let start = 0; start < runs.length; start += 2) {
+    for (const reversed of [false, true]) {
+      const code = decodeAt(runs, start, 6, reversed) || decodeAt(runs, start, 4, reversed);
+      if (code) return code;
+    }
+  }
+  return null;
+};
+
+const SCANLINE_COUNT = 15;
+const MAX_DECODE_WIDTH = 1280;
+
+// Reads a handful of horizontal lines across the middle of the frame.
+const decodeWithScanlines = (source: HTMLVideoElement | HTMLImageElement | HTMLCanvasElement): string | null => {
+  const sourceWidth = source instanceof HTMLVideoElement ? source.videoWidth : source.width;
+  const sourceHeight = source instanceof HTMLVideoElement ? source.videoHeight : source.height;
+  if (!sourceWidth || !sourceHeight) return null;
+
+  const scale = Math.min(1, MAX_DECODE_WIDTH / sourceWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(sourceWidth * scale);
+  canvas.height = Math.round(sourceHeight * scale);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  for (let line = 0; line < SCANLINE_COUNT; line++) {
+    // Centre line first, then alternately above and below it
+    const offset = Math.ceil(line / 2) * (line % 2 ? 1 : -1);
+    const y = Math.round(canvas.height / 2 + offset * canvas.height / (SCANLINE_COUNT * 2));
+    const { data } = ctx.getImageData(0, y, canvas.width, 1);
+    const row = new Array<number>(canvas.width);
+    for (let x = 0; x < canvas.width; x++) {
+      row[x] = 0.299 * data[x * 4] + 0.587 * data[x * 4 + 1] + 0.114 * data[x * 4 + 2];
+    }
+    const code = decodeScanline(row);
+    if (code) return code;
+  }
+  return null;
+};
+
+let nativeDetector: Promise<BarcodeDetectorInstance | null> | null = null;
+
+// The native detector, when it exists and supports at least one retail format.
+const getNativeDetector = (): Promise<BarcodeDetectorInstance | null> => {
+  if (!nativeDetector) {
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    nativeDetector = !Detector
+      ? Promise.resolve(null)
+      : (Detector.getSupportedFormats?.() ?? Promise.resolve(RETAIL_FORMATS))
+        .then(supported => {
+          const formats = RETAIL_FORMATS.filter(format => supported.includes(format));
+          return formats.length ? new Detector({ formats }) : null;
+        })
+        .catch(error => {
+          console.error("BarcodeDetector error:", error);
+          return null;
+        });
+  }
+  return nativeDetector;
+};
+
+/**
+ * Looks for a retail barcode in a video frame or image and returns it as a
+ * 13-digit GTIN, or null when none is readable.
+ */
+export const detectBarcode = async (
+  source: HTMLVideoElement | HTMLImageElement | HTMLCanvasElement
+): Promise<string | null> => {
+  const detector = await getNativeDetector();
+  if (detector) {
+    const barcodes = await detector.detect(source).catch(error => {
+      console.error("Barcode detection error:", error);
+      return [];
+    });
+    const gtin = barcodes.map(barcode => normalizeGtin(barcode.rawValue, barcode.format)).find(Boolean);
+    if (gtin) return gtin;
+  }
+  // The scanline decoder only reads EAN symbols
+  const code = decodeWithScanlines(source);
+  return code ? normalizeGtin(code, code.length === 8 ? "ean_8" : "ean_13") : null;
+};
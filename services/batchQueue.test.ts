@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from "vitest";
+import { AnalysisResult, BatchItem, WasteCategory } from "../types";
+import { createBatchQueue } from "./batchQueue";
+
+const RESULT: AnalysisResult = {
+  category: WasteCategory.RECYCLE,
+  itemName: "Soda Can",
+  confidence: 0.96,
+  reasoning: "",
+  disposalAction: "",
+  sustainabilityTip: "",
+};
+
+// Lets the awaiting run (and its finally block) settle.
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const files = (...names: string[]) => names.map(fileName => ({ fileName, imagePreview: `data:image/jpeg;base64,${fileName}` }));
+
+// A classify stub whose calls stay pending until the test settles them.
+const controlledClassify = () => {
+  const calls: { image: string; resolve: (result: AnalysisResult) => void; reject: (error: Error) => void }[] = [];
+  const classify = vi.fn((image: string, _signal: AbortSignal) => new Promise<AnalysisResult>((resolve, reject) => {
+    calls.push({ image, resolve, reject });
+  }));
+  return { calls, classify };
+};
+
+const start = (concurrency: number, classify: ReturnType<typeof controlledClassify>["classify"]) => {
+  const state = { items: [] as BatchItem[] };
+  const onResult = vi.fn();
+  const queue = createBatchQueue({ concurrency, classify, onChange: next => { state.items = next; }, onResult });
+  return { queue, state, onResult };
+};
+
+const statuses = (items: BatchItem[]) => items.map(item => item.status);
+
+describe("createBatchQueue", () => {
+  it("never runs more than the concurrency limit at once", async () => {
+    const { calls, classify } = controlledClassify();
+    const { queue, state, onResult } = start(2, classify);
+
+    queue.add(files("a", "b", "c", "d"));
+    expect(classify).toHaveBeenCalledTimes(2);
+    expect(statuses(state.items)).toEqual(["processing", "processing", "queued", "queued"]);
+
+    calls[0].resolve(RESULT);
+    await flush();
+    expect(classify).toHaveBeenCalledTimes(3);
+    expect(calls[2].image).toContain("c");
+    expect(statuses(state.items)).toEqual(["done", "processing", "processing", "queued"]);
+    expect(onResult).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries a failed item", async () => {
+    const { calls, classify } = controlledClassify();
+    const { queue, state, onResult } = start(1, classify);
+
+    queue.add(files("a"));
+    calls[0].reject(new Error("Upstream unavailable"));
+    await flush();
+    expect(state.items[0]).toMatchObject({ status: "error", error: "Upstream unavailable" });
+
+    queue.retry(state.items[0].id);
+    expect(state.items[0]).toMatchObject({ status: "processing", error: undefined });
+    calls[1].resolve(RESULT);
+    await flush();
+    expect(state.items[0]).toMatchObject({ status: "done", result: RESULT });
+    expect(onResult).toHaveBeenCalledTimes(1);
+  });
+
+  it("cancels everything in flight or queued and keeps finished items", async () => {
+    const { calls, classify } = controlledClassify();
+    const { queue, state, onResult } = start(1, classify);
+
+    queue.add(files("a", "b", "c"));
+    calls[0].resolve(RESULT);
+    await flush();
+    const inFlight = classify.mock.calls[1][1];
+
+    queue.cancelAll();
+    expect(inFlight.aborted).toBe(true);
+    expect(statuses(state.items)).toEqual(["done", "cancelled", "cancelled"]);
+
+    // A late answer for the aborted run is ignored
+    calls[1].resolve(RESULT);
+    await flush();
+    expect(statuses(state.items)).toEqual(["done", "cancelled", "cancelled"]);
+    expect(classify).toHaveBeenCalledTimes(2);
+    expect(onResult).toHaveBeenCalledTimes(1);
+  });
+
+  it("can still cancel a retried item after its earlier run settles", async () => {
+    const signals: AbortSignal[] = [];
+    // Ignores aborts, so the cancelled first run only settles once it's resolved
+    const pending: ((result: AnalysisResult) => void)[] = [];
+    const classify = vi.fn((_image: string, signal: AbortSignal) => {
+      signals.push(signal);
+      return new Promise<AnalysisResult>(resolve => pending.push(resolve));
+    });
+    let items: BatchItem[] = [];
+    const queue = createBatchQueue({ concurrency: 1, classify, onChange: next => { items = next; } });
+
+    queue.add([{ fileName: "can.jpg", imagePreview: "data:image/jpeg;base64,AAAA" }]);
+    const { id } = items[0];
+    queue.cancel(id);
+    queue.retry(id);
+    expect(classify).toHaveBeenCalledTimes(2);
+
+    pending[0](RESULT);
+    await flush();
+    queue.cancel(id);
+
+    expect(signals[1].aborted).toBe(true);
+    expect(items[0].status).toBe("cancelled");
+  });
+});
@@ -0,0 +1,88 @@
+import { AnalysisResult, BatchItem } from "../types";
+
+export interface BatchQueueOptions {
+  concurrency: number;
+  classify: (imagePreview: string, signal: AbortSignal) => Promise<AnalysisResult>;
+  onChange: (items: BatchItem[]) => void;
+  onResult?: (item: BatchItem) => void;
+}
+
+export interface BatchQueue {
+  add: (files: { fileName: string; imagePreview: string }[]) => void;
+  retry: (id: string) => void;
+  cancel: (id: string) => void;
+  cancelAll: () => void;
+}
+
+/**
+ * Runs classifications with at most `concurrency` in flight. State lives in
+ * the queue; every change is pushed to `onChange` as a fresh array so React
+ * can render it directly.
+ */
+export const createBatchQueue = ({ concurrency, classify, onChange, onResult }: BatchQueueOptions): BatchQueue => {
+  let items: BatchItem[] = [];
+  const controllers = new Map<string, AbortController>();
+
+  const update = (id: string, patch: Partial<BatchItem>) => {
+    items = items.map(item => (item.id === id ? { ...item, ...patch } : item));
+    onChange(items);
+  };
+
+  const run = async (item: BatchItem) => {
+    const controller = new AbortController();
+    controllers.set(item.id, controller);
+    update(item.id, { status: 'processing', error: undefined });
+
+    try {
+      const result = await classify(item.imagePreview, controller.signal);
+      if (controller.signal.aborted) return;
+      update(item.id, { status: 'done', result });
+      onResult?.({ ...item, status: 'done', result });
+    } catch (err: any) {
+      if (controller.signal.aborted) return;
+      update(item.id, { status: 'error', error: err?.message || "Classification failed." });
+    } finally {
+      // A retry after cancelling may already have started a new run for this item
+      if (controllers.get(item.id) === controller) controllers.delete(item.id);
+      pump();
+    }
+  };
+
+  const pump = () => {
+    const inFlight = items.filter(item => item.status === 'processing').length;
+    items
+      .filter(item => item.status === 'queued')
+      .slice(0, Math.max(0, concurrency - inFlight))
+      .forEach(run);
+  };
+
+  return {
+    add: (files) => {
+      items = [
+        ...items,
+        ...files.map(file => ({ id: crypto.randomUUID(), ...file, status: 'queued' as const })),
+      ];
+      onChange(items);
+      pump();
+    },
+    retry: (id) => {
+      update(id, { status: 'queued', error: undefined });
+      pump();
+    },
+    cancel: (id) => {
+      controllers.get(id)?.abort();
+      const item = items.find(candidate => candidate.id === id);
+      if (item && (item.status === 'queued' || item.status === 'processing')) {
+        update(id, { status: 'cancelled' });
+        pump();
+      }
+    },
+    cancelAll: () => {
+      controllers.forEach(controller => controller.abort());
+      items = items.map(item =>
+        item.status === 'queued' || item.status === 'processing' ? { ...item, status: 'cancelled' } : item
+      );
+      onChange(items);
+    },
+  };
+};
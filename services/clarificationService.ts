@@ -0,0 +1,23 @@
+import { AnalysisResult, WasteCategory } from "../types";
+import { appConfig } from "./config";
+
+// Used when the model is unsure but didn't suggest its own questions.
+const FALLBACK_QUESTIONS: Partial<Record<WasteCategory, string>> = {
+  [WasteCategory.RECYCLE]: "Is it greasy, wet or stained with food?",
+  [WasteCategory.COMPOST]: "Is it greasy, wet or stained with food?",
+  [WasteCategory.TRASH]: "Can it be separated into different materials (e.g. lid, label, sleeve)?",
+};
+const BATTERY_QUESTION = "Does it contain a battery, electronics or chemicals?";
+
+export const isUncertain = (result: AnalysisResult, threshold = appConfig.confidenceThreshold): boolean => {
+  return result.confidence < threshold || result.category === WasteCategory.UNKNOWN;
+};
+
+export const getClarifyingQuestions = (result: AnalysisResult): string[] => {
+  if (result.clarifyingQuestions?.length) {
+    return result.clarifyingQuestions;
+  }
+
+  const questions = [FALLBACK_QUESTIONS[result.category], BATTERY_QUESTION];
+  return questions.filter((question): question is string => Boolean(question)).slice(0, 2);
+};
@@ -0,0 +1,174 @@
+export type ClassifierErrorCode =
+  | "apiKey"
+  | "rateLimit"
+  | "timeout"
+  | "safety"
+  | "emptyResponse"
+  | "malformedResponse"
+  | "network"
+  | "service"
+  | "cancelled"
+  | "unknown"
+  // Raised by the classification server itself rather than by Gemini
+  | "invalidRequest"
+  | "payloadTooLarge"
+  | "unauthorized"
+  | "quotaExceeded"
+  | "notFound";
+
+/**
+ * Base class for every classification failure. `retryable` says whether the
+ * same request may succeed if sent again; `status` is set when the failure was
+ * reported over HTTP.
+ */
+export class ClassifierError extends Error {
+  constructor(message: string, public code: ClassifierErrorCode, public retryable: boolean, public status?: number) {
+    super(message);
+    this.name = "ClassifierError";
+  }
+}
+
+export class ApiKeyError extends ClassifierError {
+  constructor(message = "No valid Gemini API key is configured.", status?: number) {
+    super(message, "apiKey", false, status);
+    this.name = "ApiKeyError";
+  }
+}
+
+export class RateLimitError extends ClassifierError {
+  constructor(message = "Too many requests.", public retryAfterMs?: number, status?: number) {
+    super(message, "rateLimit", true, status);
+    this.name = "RateLimitError";
+  }
+}
+
+export class TimeoutError extends ClassifierError {
+  constructor(message = "The classification request timed out.", status?: number) {
+    super(message, "timeout", true, status);
+    this.name = "TimeoutError";
+  }
+}
+
+export class SafetyBlockError extends ClassifierError {
+  constructor(public reason: string, status?: number, message = `The response was blocked (${reason}).`) {
+    super(message, "safety", false, status);
+    this.name = "SafetyBlockError";
+  }
+}
+
+export class EmptyResponseError extends ClassifierError {
+  constructor(message = "The model returned an empty response.", status?: number) {
+    super(message, "emptyResponse", true, status);
+    this.name = "EmptyResponseError";
+  }
+}
+
+/** Output that could not be parsed or validated; see AnalysisValidationError. */
+export class MalformedResponseError extends ClassifierError {
+  constructor(message: string, public issues: string[], status?: number) {
+    super(message, "malformedResponse", false, status);
+    this.name = "MalformedResponseError";
+  }
+}
+
+export class NetworkError extends ClassifierError {
+  constructor(message = "Could not reach the classification service.") {
+    super(message, "network", true);
+    this.name = "NetworkError";
+  }
+}
+
+/** Any other upstream HTTP failure; 5xx responses (except 501) are worth retrying. */
+export class ServiceError extends ClassifierError {
+  constructor(message: string, status?: number) {
+    super(message, "service", status === undefined || (status >= 500 && status !== 501), status);
+    this.name = "ServiceError";
+  }
+}
+
+export class CancelledError extends ClassifierError {
+  constructor() {
+    super("The classification was cancelled.", "cancelled", false);
+    this.name = "CancelledError";
+  }
+}
+
+// fetch rejects with a TypeError whose message varies by runtime ("Failed to fetch", "fetch failed", "Load failed", ...).
+export const isNetworkFailure = (error: unknown): boolean =>
+  error instanceof TypeError && /fetch|network|load failed/i.test(error.message);
+
+/** JSON body the server sends for any failed request. */
+export interface ClassifierErrorPayload {
+  error: string;
+  code: ClassifierErrorCode;
+  retryable: boolean;
+  issues?: string[];
+  retryAfterMs?: number;
+}
+
+const STATUS_BY_CODE: Record<ClassifierErrorCode, number> = {
+  apiKey: 503,
+  rateLimit: 429,
+  timeout: 504,
+  safety: 422,
+  emptyResponse: 502,
+  malformedResponse: 422,
+  network: 502,
+  service: 502,
+  cancelled: 499,
+  unknown: 500,
+  invalidRequest: 400,
+  payloadTooLarge: 413,
+  unauthorized: 401,
+  quotaExceeded: 429,
+  notFound: 404,
+};
+
+/** Turns a classifier failure into the HTTP status and body the server responds with. */
+export const toErrorPayload = (error: unknown): { status: number; payload: ClassifierErrorPayload } => {
+  const classified = error instanceof ClassifierError
+    ? error
+    : new ClassifierError(error instanceof Error ? error.message : "Classification failed.", "unknown", false);
+
+  return {
+    status: STATUS_BY_CODE[classified.code],
+    payload: {
+      error: classified.message,
+      code: classified.code,
+      retryable: classified.retryable,
+      issues: classified instanceof MalformedResponseError ? classified.issues : undefined,
+      retryAfterMs: classified instanceof RateLimitError ? classified.retryAfterMs : undefined,
+    },
+  };
+};
+
+const codeForStatus = (status: number): ClassifierErrorCode => {
+  if (status === 400) return "invalidRequest";
+  if (status === 401 || status === 403) return "apiKey";
+  if (status === 404) return "notFound";
+  if (status === 413) return "payloadTooLarge";
+  if (status === 429) return "rateLimit";
+  if (status === 408 || status === 504) return "timeout";
+  if (status === 422) return "malformedResponse";
+  return "service";
+};
+
+/**
+ * Rebuilds the typed error from a server response. Bodies without a `code`
+ * (e.g. from a gateway in front of the server) are classified by status.
+ */
+export const fromErrorPayload = (status: number, payload: Partial<ClassifierErrorPayload> | null): ClassifierError => {
+  const message = payload?.error || `Classification server responded with ${status}.`;
+  const code = payload?.code && payload.code in STATUS_BY_CODE ? payload.code : codeForStatus(status);
+
+  switch (code) {
+    case "apiKey": return new ApiKeyError(message, status);
+    case "rateLimit": return new RateLimitError(message, payload?.retryAfterMs, status);
+    case "timeout": return new TimeoutError(message, status);
+    case "safety": return new SafetyBlockError("SAFETY", status, message);
+    case "emptyResponse": return new EmptyResponseError(message, status);
+    case "malformedResponse": return new MalformedResponseError(message, payload?.issues || [], status);
+    case "service": return new ServiceError(message, status);
+    default: return new ClassifierError(message, code, payload?.retryable ?? false, status);
+  }
+};
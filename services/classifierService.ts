@@ -0,0 +1,15 @@
+import { ClassifierBackend, WasteClassifier } from "../types";
+import { appConfig } from "./config";
+import { geminiClassifier } from "./geminiService";
+import { proxyClassifier } from "./proxyService";
+import { mockClassifier } from "./mockService";
+
+const CLASSIFIERS: Record<ClassifierBackend, WasteClassifier> = {
+  gemini: geminiClassifier,
+  proxy: proxyClassifier,
+  mock: mockClassifier,
+};
+
+export const getClassifier = (backend: ClassifierBackend = appConfig.classifierBackend): WasteClassifier => {
+  return CLASSIFIERS[backend];
+};
@@ -0,0 +1,49 @@
+import { ClassifierBackend } from '../types';
+
+const CLASSIFIER_BACKENDS: ClassifierBackend[] = ['gemini', 'proxy', 'mock'];
+
+const parseThreshold = (value: string | undefined): number => {
+  const threshold = parseFloat(value || '');
+  return Number.isFinite(threshold) && threshold >= 0 && threshold <= 1 ? threshold : 0.7;
+};
+
+const parseNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = parseFloat(value || '');
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const parseCount = (value: string | undefined, fallback: number): number => {
+  const parsed = parseInt(value || '', 10);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const parseBackend = (value: string | undefined): ClassifierBackend => {
+  const normalized = (value || '').trim().toLowerCase();
+  return CLASSIFIER_BACKENDS.includes(normalized as ClassifierBackend)
+    ? (normalized as ClassifierBackend)
+    : 'proxy';
+};
+
+// Values are injected at build time by vite.config.ts (see `define`).
+export const appConfig = {
+  classifierBackend: parseBackend(process.env.CLASSIFIER_BACKEND),
+  // Vite proxies /api to the classification server during development.
+  proxyUrl: process.env.CLASSIFIER_PROXY_URL || '/api',
+  // Below this confidence the result is shown as "Uncertain" with follow-up questions.
+  confidenceThreshold: parseThreshold(process.env.CONFIDENCE_THRESHOLD),
+  // Images are downscaled to this longest edge (px) and re-encoded before upload.
+  maxImageEdge: parseNumber(process.env.MAX_IMAGE_EDGE, 1536),
+  imageQuality: 0.85,
+  // Minimum gap between classifications in live-scan mode.
+  liveScanIntervalMs: parseNumber(process.env.LIVE_SCAN_INTERVAL_MS, 2500),
+  // Per-attempt timeout and retry policy for transient classification failures.
+  requestTimeoutMs: parseNumber(process.env.REQUEST_TIMEOUT_MS, 60000),
+  maxRetries: parseCount(process.env.MAX_RETRIES, 2),
+  retryBaseDelayMs: 500,
+  retryMaxDelayMs: 8000,
+  // Similar photos reuse a cached result for this long; 0 turns the cache off.
+  resultCacheTtlMs: parseCount(process.env.RESULT_CACHE_TTL_HOURS, 168) * 60 * 60 * 1000,
+  // Maximum differing bits (of 64) between perceptual hashes that count as the same photo.
+  resultCacheMaxDistance: parseCount(process.env.RESULT_CACHE_MAX_DISTANCE, 5),
+  resultCacheSize: 500,
+};
@@ -0,0 +1,69 @@
+const DB_NAME = "eco-sort";
+const DB_VERSION = 4;
+
+export const STORES = {
+  scans: "scans",
+  feedback: "feedback",
+  outbox: "outbox",
+  resultCache: "resultCache",
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      // Every store is keyed by `id` and indexed by `timestamp` for newest-first listing.
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.values(STORES).forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            const store = db.createObjectStore(name, { keyPath: "id" });
+            store.createIndex("timestamp", "timestamp");
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const putRecord = async <T>(storeName: StoreName, record: T): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(storeName, "readwrite").objectStore(storeName).put(record));
+};
+
+export const getRecord = async <T>(storeName: StoreName, id: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(storeName, "readonly").objectStore(storeName).get(id));
+};
+
+export const getAllRecords = async <T>(storeName: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(storeName, "readonly").objectStore(storeName).index("timestamp").getAll());
+};
+
+export const deleteRecord = async (storeName: StoreName, id: string): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(storeName, "readwrite").objectStore(storeName).delete(id));
+};
+
+export const clearStore = async (storeName: StoreName): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(storeName, "readwrite").objectStore(storeName).clear());
+};
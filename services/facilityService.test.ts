@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from "vitest";
+import { AnalysisResult, HazardClass, WasteCategory } from "../types";
+import { defaultHazardDetails } from "./hazardService";
+
+// Two facilities 0.1° of latitude (about 11 km) apart, on the prime meridian
+vi.mock("../facilities/facilities.json", () => ({
+  default: {
+    type: "FeatureCollection",
+    features: [
+      {
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [0, 0] },
+        properties: { id: "depot", name: "Depot", address: "1 Depot Road", accepts: ["RECYCLE", "SOFT_PLASTICS"], openingHours: "" },
+      },
+      {
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [0, 0.1] },
+        properties: { id: "battery-hub", name: "Battery Hub", address: "2 Market Lane", accepts: ["RECYCLE", "BATTERY"], openingHours: "" },
+      },
+    ],
+  },
+}));
+
+vi.mock("../facilities/postcodes.json", () => ({
+  default: { AB1: [0, 0], AB12: [0, 0.1] },
+}));
+
+const { findNearestFacilities, formatDistance, hasMatchingFacilities, haversineKm, lookupPostcode } = await import("./facilityService");
+
+const result = (category: WasteCategory, extra: Partial<AnalysisResult> = {}): AnalysisResult => ({
+  category,
+  itemName: "Item",
+  confidence: 0.9,
+  reasoning: "",
+  disposalAction: "",
+  sustainabilityTip: "",
+  ...extra,
+});
+
+const ids = (nearby: { facility: { id: string } }[]) => nearby.map(({ facility }) => facility.id);
+
+describe("haversineKm", () => {
+  it("measures great-circle distance", () => {
+    expect(haversineKm({ lat: 0, lon: 0 }, { lat: 0.1, lon: 0 })).toBeCloseTo(11.12, 2);
+    expect(haversineKm({ lat: 51.5074, lon: -0.1278 }, { lat: 48.8566, lon: 2.3522 })).toBeCloseTo(343.5, 0);
+    expect(haversineKm({ lat: 10, lon: 20 }, { lat: 10, lon: 20 })).toBe(0);
+  });
+});
+
+describe("findNearestFacilities", () => {
+  it("orders matching facilities by distance from the origin", () => {
+    const recyclable = result(WasteCategory.RECYCLE);
+
+    expect(ids(findNearestFacilities(recyclable, { lat: 0.01, lon: 0 }))).toEqual(["depot", "battery-hub"]);
+    const nearHub = findNearestFacilities(recyclable, { lat: 0.09, lon: 0 });
+    expect(ids(nearHub)).toEqual(["battery-hub", "depot"]);
+    expect(nearHub[0].distanceKm).toBeCloseTo(1.11, 2);
+    expect(ids(findNearestFacilities(recyclable, { lat: 0.09, lon: 0 }, 1))).toEqual(["battery-hub"]);
+  });
+
+  it("filters by the region bin id", () => {
+    const softPlastic = result(WasteCategory.TRASH, { binId: "SOFT_PLASTICS" });
+    expect(ids(findNearestFacilities(softPlastic, { lat: 0.1, lon: 0 }))).toEqual(["depot"]);
+  });
+
+  it("filters by hazard class", () => {
+    const battery = result(WasteCategory.HAZARD, { hazardDetails: defaultHazardDetails(HazardClass.BATTERY) });
+    expect(ids(findNearestFacilities(battery, { lat: 0, lon: 0 }))).toEqual(["battery-hub"]);
+  });
+
+  it("finds nothing when no facility accepts the item", () => {
+    const compost = result(WasteCategory.COMPOST);
+    expect(findNearestFacilities(compost, { lat: 0, lon: 0 })).toEqual([]);
+    expect(hasMatchingFacilities(compost)).toBe(false);
+    expect(hasMatchingFacilities(result(WasteCategory.RECYCLE))).toBe(true);
+  });
+});
+
+describe("lookupPostcode", () => {
+  it("matches the longest district prefix, ignoring case and spaces", () => {
+    expect(lookupPostcode("ab12 3cd")).toEqual({ lat: 0.1, lon: 0 });
+    expect(lookupPostcode("AB1 3CD")).toEqual({ lat: 0, lon: 0 });
+    expect(lookupPostcode("ZZ9 9ZZ")).toBeNull();
+  });
+});
+
+describe("formatDistance", () => {
+  it("uses metres below a kilometre", () => {
+    expect(formatDistance(0.4321)).toBe("432 m");
+    expect(formatDistance(11.12)).toBe("11.1 km");
+  });
+});
@@ -0,0 +1,81 @@
+import { AnalysisResult, Facility, GeoPoint, NearbyFacility } from "../types";
+import facilityData from "../facilities/facilities.json";
+import postcodeData from "../facilities/postcodes.json";
+
+const FACILITIES = facilityData.features as Facility[];
+const POSTCODES = postcodeData as Record<string, number[]>;
+
+const EARTH_RADIUS_KM = 6371;
+
+export const DEFAULT_FACILITY_LIMIT = 3;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+/** Great-circle distance between two points, in kilometres. */
+export const haversineKm = (a: GeoPoint, b: GeoPoint): number => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
+
+// Tags a facility may list for this result: generic category, region bin and hazard class.
+const getAcceptTags = (result: AnalysisResult): string[] => {
+  return [result.category, result.binId, result.hazardDetails?.hazardClass]
+    .filter((tag): tag is string => !!tag);
+};
+
+export const hasMatchingFacilities = (result: AnalysisResult): boolean => {
+  const tags = getAcceptTags(result);
+  return FACILITIES.some(feature => feature.properties.accepts.some(tag => tags.includes(tag)));
+};
+
+export const findNearestFacilities = (
+  result: AnalysisResult,
+  origin: GeoPoint,
+  limit: number = DEFAULT_FACILITY_LIMIT
+): NearbyFacility[] => {
+  const tags = getAcceptTags(result);
+  return FACILITIES
+    .filter(feature => feature.properties.accepts.some(tag => tags.includes(tag)))
+    .map(feature => {
+      const [lon, lat] = feature.geometry.coordinates;
+      const location = { lat, lon };
+      return { facility: feature.properties, location, distanceKm: haversineKm(origin, location) };
+    })
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+    .slice(0, limit);
+};
+
+/**
+ * Resolves a postcode to the centre of its district using the bundled table.
+ * Matches on the outward code ("GF1 2AB" -> "GF1"), so full postcodes work too.
+ */
+export const lookupPostcode = (postcode: string): GeoPoint | null => {
+  const normalized = postcode.toUpperCase().replace(/\s+/g, "");
+  const district = Object.keys(POSTCODES)
+    .filter(code => normalized.startsWith(code))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!district) return null;
+  const [lon, lat] = POSTCODES[district];
+  return { lat, lon };
+};
+
+export const getCurrentLocation = (): Promise<GeoPoint> => {
+  return new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error("Geolocation is not supported on this device."));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({ lat: position.coords.latitude, lon: position.coords.longitude }),
+      error => reject(new Error(error.message || "Could not get your location.")),
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    );
+  });
+};
+
+export const formatDistance = (distanceKm: number): string => {
+  return distanceKm < 1 ? `${Math.round(distanceKm * 1000)} m` : `${distanceKm.toFixed(1)} km`;
+};
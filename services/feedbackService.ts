@@ -0,0 +1,60 @@
+import { AnalysisResult, FeedbackEntry, WasteCategory } from "../types";
+import { STORES, getAllRecords, putRecord } from "./db";
+import { downloadTextFile } from "./fileUtils";
+
+export interface CorrectionInput {
+  correctCategory: WasteCategory;
+  correctBinId?: string;
+  note: string;
+}
+
+export const saveFeedback = async (
+  result: AnalysisResult,
+  image: string | null,
+  correction: CorrectionInput
+): Promise<FeedbackEntry> => {
+  const entry: FeedbackEntry = {
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    result,
+    image,
+    correctCategory: correction.correctCategory,
+    correctBinId: correction.correctBinId,
+    note: correction.note.trim(),
+  };
+  await putRecord(STORES.feedback, entry);
+  return entry;
+};
+
+export const listFeedback = () => getAllRecords<FeedbackEntry>(STORES.feedback);
+
+/**
+ * One JSON object per line, image embedded as base64, so the file can be fed
+ * straight into prompt tuning or turned into an evaluation set.
+ */
+export const toFeedbackJsonl = (entries: FeedbackEntry[]): string => {
+  return entries.map(entry => {
+    const [header, data] = entry.image ? entry.image.split(',') : [null, null];
+    const mimeType = header?.match(/^data:(.*?);base64$/)?.[1] || null;
+
+    return JSON.stringify({
+      id: entry.id,
+      timestamp: new Date(entry.timestamp).toISOString(),
+      predicted: entry.result,
+      correctCategory: entry.correctCategory,
+      correctBinId: entry.correctBinId ?? null,
+      regionId: entry.result.regionId ?? null,
+      note: entry.note,
+      image: data ? { mimeType, base64: data } : null,
+    });
+  }).join("\n");
+};
+
+export const exportFeedback = async (): Promise<number> => {
+  const entries = await listFeedback();
+  if (entries.length > 0) {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadTextFile(`eco-sort-corrections-${date}.jsonl`, toFeedbackJsonl(entries) + "\n", "application/x-ndjson");
+  }
+  return entries.length;
+};
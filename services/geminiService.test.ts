@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ApiError, Content, GenerateContentConfig, GenerateContentResponse } from "@google/genai";
+import { analyzeImage, GeminiTransport, toClassifierError } from "./geminiService";
+import {
+  ApiKeyError,
+  CancelledError,
+  EmptyResponseError,
+  MalformedResponseError,
+  RateLimitError,
+  SafetyBlockError,
+  TimeoutError,
+} from "./classifierErrors";
+import { appConfig } from "./config";
+import sodaCan from "../fixtures/classifications/soda-can.json";
+
+const IMAGE = "data:image/jpeg;base64,AAAA";
+
+// Only the fields analyzeImage reads from the SDK's response class.
+const fakeResponse = (text: string, finishReason?: string) =>
+  ({ text, candidates: [{ finishReason }] }) as unknown as GenerateContentResponse;
+
+type Generate = (contents: Content[], config: GenerateContentConfig) => Promise<GenerateContentResponse>;
+
+const fakeTransport = (generate: Generate): GeminiTransport & { generate: ReturnType<typeof vi.fn<Generate>> } => ({
+  generate: vi.fn(generate),
+  stream: () => Promise.reject(new Error("not streamed in these tests")),
+});
+
+// Never answers; rejects like the SDK once the request's signal aborts.
+const hang: Generate = (_contents, config) => new Promise((_, reject) => {
+  config.abortSignal?.addEventListener("abort", () => {
+    reject(Object.assign(new Error("This operation was aborted"), { name: "AbortError" }));
+  });
+});
+
+describe("analyzeImage with a fake transport", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    // Zero backoff so retries don't slow the tests
+    vi.spyOn(Math, "random").mockReturnValue(0);
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("returns the validated result", async () => {
+    const transport = fakeTransport(async () => fakeResponse(JSON.stringify(sodaCan)));
+    const result = await analyzeImage(IMAGE, {}, undefined, transport);
+    expect(result).toMatchObject({ itemName: "Soda Can", category: "RECYCLE", confidence: 0.96 });
+  });
+
+  it("raises ApiKeyError rather than a ReferenceError where there is no process", async () => {
+    vi.stubGlobal("process", undefined);
+    let result: Promise<unknown>;
+    try {
+      result = analyzeImage(IMAGE);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+    await expect(result).rejects.toBeInstanceOf(ApiKeyError);
+  });
+
+  it("maps a 401 to ApiKeyError without retrying", async () => {
+    const transport = fakeTransport(async () => {
+      throw new ApiError({ message: "Request had invalid authentication credentials.", status: 401 });
+    });
+    await expect(analyzeImage(IMAGE, {}, undefined, transport)).rejects.toBeInstanceOf(ApiKeyError);
+    expect(transport.generate).toHaveBeenCalledTimes(1);
+  });
+
+  it("maps a 429 to RateLimitError carrying the retryDelay", async () => {
+    const transport = fakeTransport(async () => {
+      throw new ApiError({ message: '{"error":{"code":429,"details":[{"retryDelay": "31s"}]}}', status: 429 });
+    });
+    const error = await analyzeImage(IMAGE, {}, undefined, transport).catch(caught => caught);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfterMs).toBe(31000);
+    // Longer than the maximum backoff, so it isn't retried
+    expect(transport.generate).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries a 429 whose retryDelay fits within the backoff", async () => {
+    const transport = fakeTransport(async () => fakeResponse(JSON.stringify(sodaCan)));
+    transport.generate.mockRejectedValueOnce(new ApiError({ message: '{"retryDelay": "0.01s"}', status: 429 }));
+    await expect(analyzeImage(IMAGE, {}, undefined, transport)).resolves.toMatchObject({ itemName: "Soda Can" });
+    expect(transport.generate).toHaveBeenCalledTimes(2);
+  });
+
+  it("raises SafetyBlockError for a SAFETY finish reason", async () => {
+    const transport = fakeTransport(async () => fakeResponse("", "SAFETY"));
+    const error = await analyzeImage(IMAGE, {}, undefined, transport).catch(caught => caught);
+    expect(error).toBeInstanceOf(SafetyBlockError);
+    expect(error.reason).toBe("SAFETY");
+    expect(transport.generate).toHaveBeenCalledTimes(1);
+  });
+
+  it("raises EmptyResponseError after retrying empty responses", async () => {
+    const transport = fakeTransport(async () => fakeResponse("   "));
+    await expect(analyzeImage(IMAGE, {}, undefined, transport)).rejects.toBeInstanceOf(EmptyResponseError);
+    expect(transport.generate).toHaveBeenCalledTimes(appConfig.maxRetries + 1);
+  });
+
+  it("sends a corrective retry after malformed JSON", async () => {
+    const transport = fakeTransport(async () => fakeResponse(JSON.stringify(sodaCan)));
+    transport.generate.mockResolvedValueOnce(fakeResponse('{"category": "RECYCLE", "itemName": '));
+
+    const result = await analyzeImage(IMAGE, {}, undefined, transport);
+    expect(result.itemName).toBe("Soda Can");
+    expect(transport.generate).toHaveBeenCalledTimes(2);
+
+    const [contents] = transport.generate.mock.calls[1];
+    expect(contents).toHaveLength(3);
+    expect(contents[1]).toEqual({ role: "model", parts: [{ text: '{"category": "RECYCLE", "itemName": ' }] });
+    expect(contents[2].parts?.[0].text).toContain("Your previous response could not be used");
+  });
+
+  it("raises MalformedResponseError when the corrective retry is also invalid", async () => {
+    const transport = fakeTransport(async () => fakeResponse('{"category": "PLUTONIUM"}'));
+    await expect(analyzeImage(IMAGE, {}, undefined, transport)).rejects.toBeInstanceOf(MalformedResponseError);
+    expect(transport.generate).toHaveBeenCalledTimes(2);
+  });
+
+  it("raises TimeoutError when every attempt runs past the timeout", async () => {
+    vi.useFakeTimers();
+    const transport = fakeTransport(hang);
+    const result = analyzeImage(IMAGE, {}, undefined, transport);
+    const assertion = expect(result).rejects.toBeInstanceOf(TimeoutError);
+
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(transport.generate).toHaveBeenCalledTimes(appConfig.maxRetries + 1);
+  });
+
+  it("raises CancelledError when the caller aborts", async () => {
+    const controller = new AbortController();
+    const transport = fakeTransport(hang);
+    const result = analyzeImage(IMAGE, { signal: controller.signal }, undefined, transport);
+    controller.abort();
+
+    await expect(result).rejects.toBeInstanceOf(CancelledError);
+    expect(transport.generate).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("toClassifierError", () => {
+  it("maps 403 and key messages to ApiKeyError", () => {
+    expect(toClassifierError(new ApiError({ message: "Forbidden", status: 403 }))).toBeInstanceOf(ApiKeyError);
+    expect(toClassifierError(new ApiError({ message: "API key not valid", status: 400 }))).toBeInstanceOf(ApiKeyError);
+  });
+
+  it("maps fetch failures to a retryable NetworkError", () => {
+    expect(toClassifierError(new TypeError("fetch failed"))).toMatchObject({ code: "network", retryable: true });
+  });
+});
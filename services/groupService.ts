@@ -0,0 +1,158 @@
+import { GroupMember, GroupSession, MemberTally, SharedScan } from "../types";
+import { appConfig } from "./config";
+import { listScans } from "./historyService";
+
+const SESSION_KEY = "eco-sort:group";
+const SYNC_KEY_PREFIX = "eco-sort:group-sync:";
+// Matches the server's per-request limit
+const PUSH_BATCH_SIZE = 200;
+
+export class GroupRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "GroupRequestError";
+  }
+}
+
+export const loadGroupSession = (): GroupSession | null => {
+  try {
+    const saved = localStorage.getItem(SESSION_KEY);
+    return saved ? JSON.parse(saved) as GroupSession : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveGroupSession = (session: GroupSession | null) => {
+  try {
+    if (session) {
+      localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    } else {
+      localStorage.removeItem(SESSION_KEY);
+    }
+  } catch (e) {
+    console.error("Group session save error:", e);
+  }
+};
+
+const request = async <T>(path: string, init: RequestInit = {}, token?: string): Promise<T> => {
+  const response = await fetch(`${appConfig.proxyUrl}/groups${path}`, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    // A revoked token can't be recovered; drop the session so the user can re-join.
+    if (response.status === 401) saveGroupSession(null);
+    throw new GroupRequestError(body.error || `Sync server responded with ${response.status}.`, response.status);
+  }
+  return response.status === 204 ? undefined as T : response.json();
+};
+
+// Scans up to this time have been pushed (or predate joining and stay private).
+const setSyncedUntil = (groupId: string, timestamp: number) => {
+  try {
+    localStorage.setItem(SYNC_KEY_PREFIX + groupId, String(timestamp));
+  } catch (e) {
+    console.error("Group sync state save error:", e);
+  }
+};
+
+/** Saves a new session; only scans made from now on are shared with the group. */
+const startSession = (session: GroupSession) => {
+  saveGroupSession(session);
+  setSyncedUntil(session.group.id, Date.now());
+};
+
+const requireSession = (): GroupSession => {
+  const session = loadGroupSession();
+  if (!session) throw new GroupRequestError("Not in a group.", 401);
+  return session;
+};
+
+export const createGroup = async (groupName: string, memberName: string): Promise<GroupSession> => {
+  const session = await request<GroupSession>("", {
+    method: "POST",
+    body: JSON.stringify({ groupName, memberName }),
+  });
+  startSession(session);
+  return session;
+};
+
+export const joinGroup = async (code: string, memberName: string): Promise<GroupSession> => {
+  const session = await request<GroupSession>("/join", {
+    method: "POST",
+    body: JSON.stringify({ code, memberName }),
+  });
+  startSession(session);
+  return session;
+};
+
+/** Revokes this device's token. The session is dropped locally even if the server can't be reached. */
+export const leaveGroup = async () => {
+  const session = loadGroupSession();
+  saveGroupSession(null);
+  if (!session) return;
+  try {
+    await request<void>("/me", { method: "DELETE" }, session.token);
+  } catch (e) {
+    console.error("Leave group error:", e);
+  }
+};
+
+export const getGroupMembers = async (): Promise<GroupMember[]> => {
+  const { token } = requireSession();
+  const { members } = await request<{ members: GroupMember[] }>("/me", {}, token);
+  return members;
+};
+
+/** Every scan shared with the group, newest first, fetched page by page. */
+export const listSharedScans = async (): Promise<SharedScan[]> => {
+  const { token } = requireSession();
+  const scans: SharedScan[] = [];
+  let cursor: string | null = null;
+  do {
+    const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : "";
+    const page = await request<{ scans: SharedScan[]; nextCursor: string | null }>(`/scans${query}`, {}, token);
+    scans.push(...page.scans);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return scans.reverse();
+};
+
+export const getMemberTallies = async (): Promise<MemberTally[]> => {
+  const { token } = requireSession();
+  const { tallies } = await request<{ tallies: MemberTally[] }>("/tallies", {}, token);
+  return tallies;
+};
+
+/**
+ * Pushes local scans newer than the last successful push, or than joining the
+ * group, so earlier history stays private. The server ignores ids it already
+ * has, so a push interrupted part-way is safe to repeat. Resolves to the
+ * number of scans sent.
+ */
+export const syncScans = async (): Promise<number> => {
+  const { token, group } = requireSession();
+  const syncKey = SYNC_KEY_PREFIX + group.id;
+  const lastPushed = Number(localStorage.getItem(syncKey)) || 0;
+
+  // listScans is newest first; push oldest first so progress can be saved per batch.
+  const pending = (await listScans()).filter(entry => entry.timestamp > lastPushed).reverse();
+  for (let start = 0; start < pending.length; start += PUSH_BATCH_SIZE) {
+    const batch = pending.slice(start, start + PUSH_BATCH_SIZE);
+    await request("/scans", { method: "POST", body: JSON.stringify({ scans: batch }) }, token);
+    setSyncedUntil(group.id, batch[batch.length - 1].timestamp);
+  }
+  return pending.length;
+};
+
+/** Fire-and-forget sync after a scan is saved; a no-op outside a group or offline. */
+export const syncInBackground = () => {
+  if (!loadGroupSession() || navigator.onLine === false) return;
+  syncScans().catch(e => console.error("Group sync error:", e));
+};
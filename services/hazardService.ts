@@ -0,0 +1,48 @@
+import { HazardClass, HazardDetails } from "../types";
+
+// Used when the model returns a HAZARD result without its own precautions.
+export const DEFAULT_PRECAUTIONS: Record<HazardClass, string[]> = {
+  [HazardClass.BATTERY]: [
+    "Tape over the terminals to prevent short circuits.",
+    "Do not crush, puncture or heat the battery.",
+    "Keep swollen or damaged batteries away from anything flammable.",
+  ],
+  [HazardClass.E_WASTE]: [
+    "Remove batteries if they come out easily and recycle them separately.",
+    "Wipe personal data from phones and computers before drop-off.",
+  ],
+  [HazardClass.SOLVENT]: [
+    "Keep in the original, tightly closed container with its label.",
+    "Never pour down drains or mix with other chemicals.",
+    "Wear gloves if the container is leaking.",
+  ],
+  [HazardClass.SHARPS]: [
+    "Never recap needles or handle sharp edges with bare hands.",
+    "Place in a rigid, puncture-proof container with a lid.",
+  ],
+  [HazardClass.LIGHT_BULB]: [
+    "Handle carefully; fluorescent bulbs contain mercury.",
+    "If broken, ventilate the room and sweep up with card, not a vacuum.",
+  ],
+  [HazardClass.OTHER]: [
+    "Keep away from children and pets.",
+    "Do not mix with household waste or other chemicals.",
+  ],
+};
+
+export const DEFAULT_STORAGE_ADVICE: Record<HazardClass, string> = {
+  [HazardClass.BATTERY]: "Store in a cool, dry, non-metal container until drop-off.",
+  [HazardClass.E_WASTE]: "Store somewhere dry until you can take it to an e-waste collection point.",
+  [HazardClass.SOLVENT]: "Store upright in a ventilated area away from heat and flames.",
+  [HazardClass.SHARPS]: "Keep the sealed container out of reach of children until drop-off.",
+  [HazardClass.LIGHT_BULB]: "Store in its original packaging or wrapped in paper so it can't break.",
+  [HazardClass.OTHER]: "Store sealed, labelled and out of reach until drop-off.",
+};
+
+// Stands in until the model's own details arrive, e.g. while a result streams.
+export const defaultHazardDetails = (hazardClass: HazardClass = HazardClass.OTHER): HazardDetails => ({
+  hazardClass,
+  precautions: DEFAULT_PRECAUTIONS[hazardClass],
+  doNotBin: true,
+  storageAdvice: DEFAULT_STORAGE_ADVICE[hazardClass],
+});
@@ -0,0 +1,24 @@
+import { AnalysisResult, ScanHistoryEntry } from "../types";
+import { STORES, clearStore, deleteRecord, getAllRecords, putRecord } from "./db";
+import { createThumbnail } from "./imageUtils";
+
+export const saveScan = async (result: AnalysisResult, imagePreview: string | null): Promise<ScanHistoryEntry> => {
+  const entry: ScanHistoryEntry = {
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    thumbnail: imagePreview ? await createThumbnail(imagePreview) : null,
+    result,
+  };
+  await putRecord(STORES.scans, entry);
+  return entry;
+};
+
+// Newest first.
+export const listScans = async (): Promise<ScanHistoryEntry[]> => {
+  const entries = await getAllRecords<ScanHistoryEntry>(STORES.scans);
+  return entries.reverse();
+};
+
+export const deleteScan = (id: string) => deleteRecord(STORES.scans, id);
+
+export const clearScans = () => clearStore(STORES.scans);
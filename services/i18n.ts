@@ -0,0 +1,64 @@
+import { LocaleInfo } from "../types";
+import en from "../locales/en.json";
+import es from "../locales/es.json";
+import ur from "../locales/ur.json";
+import ar from "../locales/ar.json";
+
+export type MessageKey = keyof typeof en;
+export type Translator = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+export const DEFAULT_LOCALE = "en";
+
+const STORAGE_KEY = "eco-sort:locale";
+
+export const LOCALES: LocaleInfo[] = [
+  { id: "en", name: "English", englishName: "English", dir: "ltr" },
+  { id: "es", name: "Español", englishName: "Spanish", dir: "ltr" },
+  { id: "ur", name: "اردو", englishName: "Urdu", dir: "rtl" },
+  { id: "ar", name: "العربية", englishName: "Arabic", dir: "rtl" },
+];
+
+const CATALOGUES: Record<string, Partial<Record<MessageKey, string>>> = { en, es, ur, ar };
+
+export const getLocale = (localeId: string = DEFAULT_LOCALE): LocaleInfo => {
+  return LOCALES.find(locale => locale.id === localeId)
+    || LOCALES.find(locale => locale.id === DEFAULT_LOCALE) as LocaleInfo;
+};
+
+/** Missing keys fall back to English so a partial catalogue never shows raw keys. */
+export const createTranslator = (localeId: string): Translator => {
+  const catalogue = CATALOGUES[getLocale(localeId).id];
+  return (key, params = {}) => {
+    const template = catalogue[key] ?? en[key];
+    return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+  };
+};
+
+/** Picks the first supported language from the browser's preference list. */
+export const detectLocale = (): string => {
+  const preferred = typeof navigator !== "undefined"
+    ? (navigator.languages?.length ? navigator.languages : [navigator.language])
+    : [];
+  for (const tag of preferred) {
+    const language = (tag || "").split("-")[0].toLowerCase();
+    if (LOCALES.some(locale => locale.id === language)) return language;
+  }
+  return DEFAULT_LOCALE;
+};
+
+export const loadSelectedLocale = (): string => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? getLocale(saved).id : detectLocale();
+  } catch {
+    return detectLocale();
+  }
+};
+
+export const saveSelectedLocale = (localeId: string) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, localeId);
+  } catch (e) {
+    console.error("Locale save error:", e);
+  }
+};
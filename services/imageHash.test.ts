@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { appConfig } from "./config";
+import { dHashFromGrayscale, hammingDistance } from "./imageHash";
+
+// A 9×8 luminance grid with uneven texture, like a downscaled photo
+const photo = Array.from({ length: 72 }, (_, index) => 128 + Math.round(80 * Math.sin(index * 1.7) + 30 * Math.cos(index * 0.45)));
+
+describe("dHashFromGrayscale", () => {
+  it("gives the same image the same 64-bit hash", () => {
+    const hash = dHashFromGrayscale(photo);
+    expect(hash).toMatch(/^[0-9a-f]{16}$/);
+    expect(dHashFromGrayscale([...photo])).toBe(hash);
+  });
+
+  it("keeps a slightly brighter copy within the cache threshold", () => {
+    // Brighter and a little washed out, with the highlights clipped
+    const brighter = photo.map(value => Math.min(255, Math.round(value * 1.08 + 12)));
+    const distance = hammingDistance(dHashFromGrayscale(photo), dHashFromGrayscale(brighter));
+    expect(distance).toBeLessThanOrEqual(appConfig.resultCacheMaxDistance);
+  });
+
+  it("sets a bit where a pixel is brighter than its right-hand neighbour", () => {
+    const descending = Array.from({ length: 72 }, (_, index) => 255 - (index % 9));
+    expect(dHashFromGrayscale(descending)).toBe("ffffffffffffffff");
+    expect(dHashFromGrayscale(new Array(72).fill(100))).toBe("0000000000000000");
+  });
+});
+
+describe("hammingDistance", () => {
+  it("counts the differing bits", () => {
+    expect(hammingDistance("0000000000000000", "0000000000000000")).toBe(0);
+    expect(hammingDistance("0000000000000000", "000000000000001f")).toBe(5);
+    expect(hammingDistance("ff00000000000000", "0f00000000000001")).toBe(5);
+    expect(hammingDistance("0000000000000000", "ffffffffffffffff")).toBe(64);
+  });
+});
@@ -0,0 +1,57 @@
+import { loadImage } from "./imageUtils";
+
+// dHash compares each pixel with its right-hand neighbour on a 9×8 grid: 64 bits.
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/**
+ * Difference hash of a 9×8 grayscale image (row-major luminance values), as
+ * 16 hex characters. Small changes in lighting, scale or JPEG quality flip
+ * only a few bits.
+ */
+export const dHashFromGrayscale = (gray: ArrayLike<number>): string => {
+  let hex = "";
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let byte = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const left = gray[y * HASH_WIDTH + x];
+      const right = gray[y * HASH_WIDTH + x + 1];
+      byte = (byte << 1) | (left > right ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, "0");
+  }
+  return hex;
+};
+
+/** Number of differing bits between two hashes of the same length. */
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let index = 0; index < a.length; index += 2) {
+    let diff = parseInt(a.slice(index, index + 2), 16) ^ parseInt(b.slice(index, index + 2), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+/** Perceptual hash of an image data URL, computed on a tiny canvas. */
+export const computeImageHash = async (dataUrl: string): Promise<string> => {
+  const img = await loadImage(dataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = HASH_WIDTH;
+  canvas.height = HASH_HEIGHT;
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas is not available.");
+  ctx.drawImage(img, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+
+  const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const gray = new Array<number>(HASH_WIDTH * HASH_HEIGHT);
+  for (let index = 0; index < gray.length; index++) {
+    // Rec. 601 luma
+    gray[index] = 0.299 * data[index * 4] + 0.587 * data[index * 4 + 1] + 0.114 * data[index * 4 + 2];
+  }
+  return dHashFromGrayscale(gray);
+};
@@ -0,0 +1,137 @@
+import { afterAll, describe, expect, it } from "vitest";
+import { AnalysisResult, DetectedItem, ImpactFactorTable, ScanHistoryEntry, WasteCategory } from "../types";
+import { buildImpactSummary, findImpactFactor } from "./impactService";
+
+// Days and weeks are local; pin a zone with daylight saving so the tests mean the same everywhere.
+const originalTz = process.env.TZ;
+process.env.TZ = "Europe/London";
+afterAll(() => {
+  if (originalTz === undefined) delete process.env.TZ;
+  else process.env.TZ = originalTz;
+});
+
+const TABLE: ImpactFactorTable = {
+  version: 1,
+  source: "Test factors",
+  items: [
+    { id: "can", label: "Can", keywords: ["can"], massKg: 0.01, co2eKg: 0.1 },
+    { id: "drink-can", label: "Drink can", keywords: ["drink can"], massKg: 0.02, co2eKg: 0.2 },
+  ],
+  categoryDefaults: {
+    [WasteCategory.RECYCLE]: { massKg: 1, co2eKg: 2 },
+    [WasteCategory.COMPOST]: { massKg: 3, co2eKg: 4 },
+    [WasteCategory.HAZARD]: { massKg: 5, co2eKg: 6 },
+    [WasteCategory.TRASH]: { massKg: 0, co2eKg: 0 },
+    [WasteCategory.UNKNOWN]: { massKg: 0, co2eKg: 0 },
+  },
+};
+
+const result = (category: WasteCategory, itemName = "Item", items?: DetectedItem[]): AnalysisResult => ({
+  category,
+  itemName,
+  confidence: 0.9,
+  reasoning: "",
+  disposalAction: "",
+  sustainabilityTip: "",
+  items,
+});
+
+let nextId = 0;
+const scan = (when: string, category = WasteCategory.RECYCLE, itemName?: string): ScanHistoryEntry => ({
+  id: String(nextId++),
+  timestamp: new Date(when).getTime(),
+  thumbnail: null,
+  result: result(category, itemName),
+});
+
+const at = (when: string) => new Date(when).getTime();
+
+describe("buildImpactSummary streaks", () => {
+  it("counts days either side of a clock change as consecutive", () => {
+    // The clocks go forward on 31 March and back on 27 October 2024
+    const spring = [scan("2024-03-30T12:00"), scan("2024-03-31T12:00"), scan("2024-04-01T12:00")];
+    expect(buildImpactSummary(spring, { now: at("2024-04-01T18:00") })).toMatchObject({ currentStreakDays: 3, longestStreakDays: 3 });
+
+    const autumn = [scan("2024-10-26T23:30"), scan("2024-10-27T23:30"), scan("2024-10-28T00:15")];
+    expect(buildImpactSummary(autumn, { now: at("2024-10-28T09:00") })).toMatchObject({ currentStreakDays: 3, longestStreakDays: 3 });
+  });
+
+  it("breaks the streak on a day without a scan", () => {
+    const entries = [scan("2024-06-01T09:00"), scan("2024-06-02T09:00"), scan("2024-06-02T20:00"), scan("2024-06-04T09:00")];
+
+    expect(buildImpactSummary(entries, { now: at("2024-06-04T12:00") })).toMatchObject({ currentStreakDays: 1, longestStreakDays: 2 });
+    // Still current the day after the last scan, gone the day after that
+    expect(buildImpactSummary(entries, { now: at("2024-06-05T23:00") }).currentStreakDays).toBe(1);
+    expect(buildImpactSummary(entries, { now: at("2024-06-06T00:30") }).currentStreakDays).toBe(0);
+  });
+});
+
+describe("buildImpactSummary weekly counts", () => {
+  it("buckets scans into local weeks starting on Monday", () => {
+    const entries = [
+      scan("2024-03-31T23:00", WasteCategory.COMPOST),
+      scan("2024-04-01T00:30", WasteCategory.RECYCLE),
+      scan("2024-01-01T12:00", WasteCategory.TRASH),
+    ];
+    const summary = buildImpactSummary(entries, { weeks: 2, now: at("2024-04-03T12:00") });
+
+    expect(summary.weekly.map(week => week.weekStart)).toEqual([at("2024-03-25T00:00"), at("2024-04-01T00:00")]);
+    expect(summary.weekly[0].counts).toMatchObject({ COMPOST: 1, RECYCLE: 0 });
+    expect(summary.weekly[1].counts).toMatchObject({ COMPOST: 0, RECYCLE: 1 });
+    // Older scans still count towards the totals
+    expect(summary.categoryTotals[WasteCategory.TRASH]).toBe(1);
+  });
+});
+
+describe("buildImpactSummary diversion and avoided impact", () => {
+  it("has no diversion rate without recyclable, compostable or landfill items", () => {
+    const entries = [scan("2024-06-01T09:00", WasteCategory.HAZARD), scan("2024-06-01T10:00", WasteCategory.UNKNOWN)];
+    expect(buildImpactSummary(entries, { table: TABLE }).diversionRate).toBeNull();
+    expect(buildImpactSummary([], { table: TABLE }).diversionRate).toBeNull();
+  });
+
+  it("divides diverted items by every sortable item", () => {
+    const entries = [
+      scan("2024-06-01T09:00", WasteCategory.RECYCLE),
+      scan("2024-06-01T10:00", WasteCategory.COMPOST),
+      scan("2024-06-01T11:00", WasteCategory.TRASH),
+      scan("2024-06-01T12:00", WasteCategory.HAZARD),
+    ];
+    expect(buildImpactSummary(entries, { table: TABLE }).diversionRate).toBeCloseTo(2 / 3);
+  });
+
+  it("uses a keyword factor where the name matches and the category default otherwise", () => {
+    const entries = [
+      scan("2024-06-01T09:00", WasteCategory.RECYCLE, "Cold Drink Can"),
+      scan("2024-06-01T10:00", WasteCategory.RECYCLE, "Milk Jug"),
+      scan("2024-06-01T11:00", WasteCategory.COMPOST, "Orange Peel"),
+      scan("2024-06-01T12:00", WasteCategory.TRASH, "Crisp Packet"),
+    ];
+    const summary = buildImpactSummary(entries, { table: TABLE });
+
+    // 0.02 for the can (longest keyword), 1 and 3 from the defaults; landfill items add nothing
+    expect(summary.landfillMassAvoidedKg).toBeCloseTo(4.02);
+    expect(summary.co2eAvoidedKg).toBeCloseTo(6.2);
+  });
+
+  it("counts every item of a multi-item scan", () => {
+    const box = { x: 0, y: 0, width: 1, height: 1 };
+    const entry = scan("2024-06-01T09:00");
+    entry.result = result(WasteCategory.RECYCLE, "Recycling", [
+      { category: WasteCategory.RECYCLE, itemName: "Tin Can", confidence: 0.9, boundingBox: box, disposalAction: "" },
+      { category: WasteCategory.HAZARD, itemName: "Battery", confidence: 0.9, boundingBox: box, disposalAction: "" },
+    ]);
+    const summary = buildImpactSummary([entry], { table: TABLE });
+
+    expect(summary).toMatchObject({ totalItems: 2, hazardItems: 1 });
+    expect(summary.landfillMassAvoidedKg).toBeCloseTo(5.01);
+  });
+});
+
+describe("findImpactFactor", () => {
+  it("prefers the longest matching keyword, ignoring case", () => {
+    expect(findImpactFactor("DRINK CAN", TABLE)?.id).toBe("drink-can");
+    expect(findImpactFactor("Tin can", TABLE)?.id).toBe("can");
+    expect(findImpactFactor("Banana", TABLE)).toBeUndefined();
+  });
+});
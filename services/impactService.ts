@@ -0,0 +1,120 @@
+import { ImpactFactor, ImpactFactorTable, ImpactSummary, ScanHistoryEntry, WasteCategory, WeeklyCategoryCount } from "../types";
+import factorData from "../impact/factors.json";
+
+export const IMPACT_FACTORS = factorData as ImpactFactorTable;
+
+export const DEFAULT_WEEKS = 8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Categories whose items are kept out of landfill when disposed of as advised
+const DIVERTED = [WasteCategory.RECYCLE, WasteCategory.COMPOST, WasteCategory.HAZARD];
+
+const emptyCounts = (): Record<WasteCategory, number> => ({
+  [WasteCategory.RECYCLE]: 0,
+  [WasteCategory.COMPOST]: 0,
+  [WasteCategory.HAZARD]: 0,
+  [WasteCategory.TRASH]: 0,
+  [WasteCategory.UNKNOWN]: 0,
+});
+
+export const sumCounts = (counts: Record<WasteCategory, number>): number => {
+  return Object.values(WasteCategory).reduce((sum, category) => sum + counts[category], 0);
+};
+
+const startOfDay = (timestamp: number): number => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Weeks start on Monday
+const startOfWeek = (timestamp: number): number => {
+  const date = new Date(startOfDay(timestamp));
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date.getTime();
+};
+
+// Multi-item scans count every detected item, not just the headline one.
+const getScanItems = (entry: ScanHistoryEntry): { category: WasteCategory; itemName: string }[] => {
+  return entry.result.items?.length ? entry.result.items : [entry.result];
+};
+
+/** First factor whose keyword appears in the item name; longer keywords win ties. */
+export const findImpactFactor = (itemName: string, table: ImpactFactorTable = IMPACT_FACTORS): ImpactFactor | undefined => {
+  const name = itemName.toLowerCase();
+  let best: { factor: ImpactFactor; length: number } | undefined;
+  table.items.forEach(factor => {
+    factor.keywords.forEach(keyword => {
+      if (name.includes(keyword.toLowerCase()) && (!best || keyword.length > best.length)) {
+        best = { factor, length: keyword.length };
+      }
+    });
+  });
+  return best?.factor;
+};
+
+const getStreaks = (timestamps: number[], now: number) => {
+  const days = Array.from(new Set(timestamps.map(startOfDay))).sort((a, b) => a - b);
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, index) => {
+    // Rounded so daylight-saving days (23h/25h) still count as consecutive
+    run = index > 0 && Math.round((day - days[index - 1]) / DAY_MS) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  // The current streak survives until a full day passes without a scan.
+  const lastDay = days[days.length - 1];
+  const isActive = lastDay !== undefined && Math.round((startOfDay(now) - lastDay) / DAY_MS) <= 1;
+  return { current: isActive ? run : 0, longest };
+};
+
+export const buildImpactSummary = (
+  entries: ScanHistoryEntry[],
+  options: { weeks?: number; now?: number; table?: ImpactFactorTable } = {}
+): ImpactSummary => {
+  const { weeks = DEFAULT_WEEKS, now = Date.now(), table = IMPACT_FACTORS } = options;
+
+  const weekly: WeeklyCategoryCount[] = [];
+  const currentWeek = startOfWeek(now);
+  for (let offset = weeks - 1; offset >= 0; offset--) {
+    const date = new Date(currentWeek);
+    date.setDate(date.getDate() - offset * 7);
+    weekly.push({ weekStart: date.getTime(), counts: emptyCounts() });
+  }
+
+  const categoryTotals = emptyCounts();
+  let landfillMassAvoidedKg = 0;
+  let co2eAvoidedKg = 0;
+
+  entries.forEach(entry => {
+    const week = weekly.find(bucket => bucket.weekStart === startOfWeek(entry.timestamp));
+    getScanItems(entry).forEach(item => {
+      categoryTotals[item.category]++;
+      if (week) week.counts[item.category]++;
+
+      if (DIVERTED.includes(item.category)) {
+        const factor = findImpactFactor(item.itemName, table) || table.categoryDefaults[item.category];
+        landfillMassAvoidedKg += factor.massKg;
+        co2eAvoidedKg += factor.co2eKg;
+      }
+    });
+  });
+
+  const diverted = categoryTotals[WasteCategory.RECYCLE] + categoryTotals[WasteCategory.COMPOST];
+  const sortable = diverted + categoryTotals[WasteCategory.TRASH];
+  const streaks = getStreaks(entries.map(entry => entry.timestamp), now);
+
+  return {
+    totalItems: sumCounts(categoryTotals),
+    categoryTotals,
+    weekly,
+    diversionRate: sortable > 0 ? diverted / sortable : null,
+    hazardItems: categoryTotals[WasteCategory.HAZARD],
+    currentStreakDays: streaks.current,
+    longestStreakDays: streaks.longest,
+    landfillMassAvoidedKg,
+    co2eAvoidedKg,
+  };
+};
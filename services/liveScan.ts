@@ -0,0 +1,45 @@
+// Frames are compared on a tiny grayscale thumbnail: cheap enough to run several
+// times a second and insensitive to sensor noise.
+export const SAMPLE_SIZE = 32;
+
+/**
+ * Draws the current video frame into `canvas` at SAMPLE_SIZE² and returns its
+ * luminance values.
+ */
+export const sampleFrame = (video: HTMLVideoElement, canvas: HTMLCanvasElement): Uint8ClampedArray | null => {
+  if (!video.videoWidth || !video.videoHeight) return null;
+
+  canvas.width = SAMPLE_SIZE;
+  canvas.height = SAMPLE_SIZE;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  ctx.drawImage(video, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  const { data } = ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  const luma = new Uint8ClampedArray(SAMPLE_SIZE * SAMPLE_SIZE);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return luma;
+};
+
+/**
+ * Mean absolute difference between two samples, 0 (identical) to 255.
+ */
+export const frameDifference = (a: Uint8ClampedArray, b: Uint8ClampedArray): number => {
+  let total = 0;
+  for (let i = 0; i < a.length; i++) {
+    total += Math.abs(a[i] - b[i]);
+  }
+  return total / a.length;
+};
+
+export const captureFrame = (video: HTMLVideoElement): string | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx || !canvas.width) return null;
+  ctx.drawImage(video, 0, 0);
+  return canvas.toDataURL('image/jpeg', 0.9);
+};
@@ -0,0 +1,104 @@
+import { AnalysisResult, ClassifyOptions, PartialAnalysis, WasteClassifier } from "../types";
+import { validateAnalysisResult } from "./validation";
+import { getRegionPack } from "./regionService";
+import sodaCan from "../fixtures/classifications/soda-can.json";
+import pizzaBox from "../fixtures/classifications/pizza-box.json";
+import battery from "../fixtures/classifications/battery.json";
+import chipBag from "../fixtures/classifications/chip-bag.json";
+import coffeeCup from "../fixtures/classifications/coffee-cup.json";
+import takeawayTray from "../fixtures/classifications/takeaway-tray.json";
+
+const FIXTURES: unknown[] = [sodaCan, pizzaBox, battery, chipBag, coffeeCup];
+
+// Simple string hash (djb2) so the same image always maps to the same fixture.
+const hashString = (value: string): number => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+};
+
+const STREAM_STEP_MS = 250;
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new DOMException("Aborted", "AbortError"));
+    return;
+  }
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener("abort", () => {
+    clearTimeout(timer);
+    reject(new DOMException("Aborted", "AbortError"));
+  }, { once: true });
+});
+
+// Replays a finished result field by field so the streaming UI can be exercised without a model.
+const replayAsStream = async (result: AnalysisResult, options: ClassifyOptions) => {
+  const steps: PartialAnalysis[] = [
+    { category: result.category, binId: result.binId, itemName: result.itemName },
+    { confidence: result.confidence },
+    { reasoning: result.reasoning },
+    { disposalAction: result.disposalAction },
+    { sustainabilityTip: result.sustainabilityTip },
+  ];
+  let partial: PartialAnalysis = {};
+  for (const step of steps) {
+    await wait(STREAM_STEP_MS, options.signal);
+    partial = { ...partial, ...step };
+    options.onPartial?.(partial);
+  }
+};
+
+const classifyFixture = (base64Image: string, options: ClassifyOptions): AnalysisResult => {
+  if (options.multiItem) {
+    return validateAnalysisResult(takeawayTray, getRegionPack(options.regionId));
+  }
+
+  const cleanBase64 = base64Image.split(',')[1] || base64Image;
+  const fixture = FIXTURES[hashString(cleanBase64) % FIXTURES.length];
+  const result = validateAnalysisResult(fixture, getRegionPack(options.regionId));
+
+  // Answered follow-up questions settle the mock's uncertainty deterministically.
+  return options.clarifications?.length
+    ? { ...result, confidence: Math.max(result.confidence, 0.9), clarifyingQuestions: [] }
+    : result;
+};
+
+// Prefers the fixture whose item name shares a word with the description.
+const classifyDescriptionFixture = (description: string, options: ClassifyOptions): AnalysisResult => {
+  const words = description.toLowerCase().split(/\W+/).filter(word => word.length > 2);
+  const results = FIXTURES.map(fixture => validateAnalysisResult(fixture, getRegionPack(options.regionId)));
+  const match = results.find(result =>
+    result.itemName.toLowerCase().split(/\W+/).some(word => words.includes(word))
+  );
+  return match || results[hashString(description.toLowerCase()) % results.length];
+};
+
+export const classifyWithMock = async (
+  base64Image: string,
+  options: ClassifyOptions = {}
+): Promise<AnalysisResult> => {
+  const result = classifyFixture(base64Image, options);
+  if (options.onPartial) {
+    await replayAsStream(result, options);
+  }
+  return result;
+};
+
+export const classifyTextWithMock = async (
+  description: string,
+  options: ClassifyOptions = {}
+): Promise<AnalysisResult> => {
+  const result = classifyDescriptionFixture(description, options);
+  if (options.onPartial) {
+    await replayAsStream(result, options);
+  }
+  return result;
+};
+
+export const mockClassifier: WasteClassifier = {
+  name: 'mock',
+  classify: classifyWithMock,
+  classifyText: classifyTextWithMock,
+};
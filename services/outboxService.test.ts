@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { AnalysisResult, OutboxEntry, WasteCategory } from "../types";
+import { MalformedResponseError, NetworkError, SafetyBlockError } from "./classifierErrors";
+
+// IndexedDB stand-in: one ordered map per store
+const stores = new Map<string, Map<string, unknown>>();
+const storeFor = (name: string) => stores.get(name) || stores.set(name, new Map()).get(name)!;
+
+vi.mock("./db", () => ({
+  STORES: { outbox: "outbox" },
+  putRecord: async (store: string, record: { id: string }) => { storeFor(store).set(record.id, record); },
+  getAllRecords: async (store: string) => [...storeFor(store).values()],
+  deleteRecord: async (store: string, id: string) => { storeFor(store).delete(id); },
+}));
+
+const { enqueueScan, flushOutbox, listOutbox } = await import("./outboxService");
+
+const RESULT: AnalysisResult = {
+  category: WasteCategory.RECYCLE,
+  itemName: "Soda Can",
+  confidence: 0.96,
+  reasoning: "",
+  disposalAction: "",
+  sustainabilityTip: "",
+};
+
+const queue = async (...images: string[]) => {
+  for (const image of images) await enqueueScan(image, {});
+};
+
+describe("flushOutbox", () => {
+  beforeEach(() => {
+    stores.clear();
+  });
+
+  it("classifies every entry in order and empties the queue", async () => {
+    await queue("a", "b");
+    const classify = vi.fn(async (_image: string) => RESULT);
+    const onResult = vi.fn(async () => {});
+
+    await expect(flushOutbox(classify, onResult, vi.fn())).resolves.toBe(2);
+    expect(classify.mock.calls.map(([image]) => image)).toEqual(["a", "b"]);
+    expect(await listOutbox()).toEqual([]);
+  });
+
+  it("drops entries that fail for good, reports them and keeps going", async () => {
+    await queue("blocked", "garbled", "fine");
+    const classify = vi.fn(async (image: string) => {
+      if (image === "blocked") throw new SafetyBlockError("SAFETY");
+      if (image === "garbled") throw new MalformedResponseError("Bad output", ["category"]);
+      return RESULT;
+    });
+    const onFailure = vi.fn<(error: unknown, entry: OutboxEntry) => void>();
+
+    await expect(flushOutbox(classify, vi.fn(async () => {}), onFailure)).resolves.toBe(1);
+    expect(onFailure.mock.calls.map(([error, entry]) => [(error as Error).name, entry.image])).toEqual([
+      ["SafetyBlockError", "blocked"],
+      ["MalformedResponseError", "garbled"],
+    ]);
+    expect(await listOutbox()).toEqual([]);
+  });
+
+  it("stops at a network failure and leaves the rest queued", async () => {
+    await queue("a", "b", "c");
+    const classify = vi.fn()
+      .mockResolvedValueOnce(RESULT)
+      .mockRejectedValueOnce(new NetworkError());
+    const onFailure = vi.fn();
+
+    await expect(flushOutbox(classify, vi.fn(async () => {}), onFailure)).resolves.toBe(1);
+    expect(classify).toHaveBeenCalledTimes(2);
+    expect(onFailure).not.toHaveBeenCalled();
+    expect((await listOutbox()).map(entry => entry.image)).toEqual(["b", "c"]);
+  });
+});
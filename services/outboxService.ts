@@ -0,0 +1,62 @@
+import { AnalysisResult, ClassifyOptions, OutboxEntry } from "../types";
+import { STORES, deleteRecord, getAllRecords, putRecord } from "./db";
+import { ClassifierError, NetworkError } from "./classifierErrors";
+
+export const enqueueScan = async (image: string, options: OutboxEntry['options']): Promise<OutboxEntry> => {
+  const entry: OutboxEntry = {
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    image,
+    options,
+  };
+  await putRecord(STORES.outbox, entry);
+  return entry;
+};
+
+// Oldest first, so results arrive in the order the photos were taken.
+export const listOutbox = () => getAllRecords<OutboxEntry>(STORES.outbox);
+
+export const removeFromOutbox = (id: string) => deleteRecord(STORES.outbox, id);
+
+let flushPromise: Promise<number> | null = null;
+
+// A dropped connection, a timeout or a rate limit may clear up by the next
+// flush; anything else would fail the same way every time.
+const isTransient = (error: unknown) =>
+  error instanceof ClassifierError && (error.retryable || error instanceof NetworkError);
+
+/**
+ * Classifies every queued scan and hands each result to `onResult`; entries
+ * are removed only once their result has been handled. A transient failure
+ * stops the run and leaves the rest queued for the next one. Any other
+ * failure removes that entry, reports it to `onFailure` and moves on, so one
+ * bad scan can't hold up the queue. Concurrent calls share one run. Resolves
+ * to the number classified.
+ */
+export const flushOutbox = (
+  classify: (image: string, options: ClassifyOptions) => Promise<AnalysisResult>,
+  onResult: (result: AnalysisResult, entry: OutboxEntry) => Promise<void>,
+  onFailure: (error: unknown, entry: OutboxEntry) => void
+): Promise<number> => {
+  if (!flushPromise) {
+    flushPromise = (async () => {
+      let classified = 0;
+      for (const entry of await listOutbox()) {
+        try {
+          const result = await classify(entry.image, entry.options);
+          await onResult(result, entry);
+          await removeFromOutbox(entry.id);
+          classified++;
+        } catch (err) {
+          if (isTransient(err)) break;
+          await removeFromOutbox(entry.id);
+          onFailure(err, entry);
+        }
+      }
+      return classified;
+    })().finally(() => {
+      flushPromise = null;
+    });
+  }
+  return flushPromise;
+};
@@ -0,0 +1,119 @@
+import { BoundingBox } from "../types";
+import { appConfig } from "./config";
+
+// What Gemini (and every browser canvas) can take as inline data.
+const OUTPUT_MIME_TYPE = "image/jpeg";
+
+export interface PreprocessOptions {
+  maxEdge?: number;
+  quality?: number;
+  crop?: BoundingBox; // Normalized 0–1, applied after orientation correction
+}
+
+export interface PreparedImage {
+  dataUrl: string;
+  mimeType: string;
+  sourceMimeType: string | null;
+  width: number;
+  height: number;
+}
+
+/**
+ * Raised when an image can't be decoded or re-encoded in this browser
+ * (most often HEIC outside Safari).
+ */
+export class ImagePreprocessError extends Error {
+  constructor(message: string, public sourceMimeType: string | null) {
+    super(message);
+    this.name = "ImagePreprocessError";
+  }
+}
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.subarray(start, end));
+
+/**
+ * Sniffs the real format from magic bytes; file extensions and data URL
+ * headers are often wrong (e.g. HEIC uploads labelled image/jpeg).
+ */
+export const detectMimeType = (bytes: Uint8Array): string | null => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "image/jpeg";
+  if (ascii(bytes, 1, 4) === "PNG") return "image/png";
+  if (ascii(bytes, 0, 4) === "GIF8") return "image/gif";
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WEBP") return "image/webp";
+  if (ascii(bytes, 4, 8) === "ftyp") {
+    const brand = ascii(bytes, 8, 12);
+    if (brand === "avif" || brand === "avis") return "image/avif";
+    if (["heic", "heix", "hevc", "hevx", "mif1", "msf1"].includes(brand)) return "image/heic";
+  }
+  return null;
+};
+
+/**
+ * Prepares an image for classification: detects the real format, decodes it
+ * with EXIF orientation applied, optionally crops, downscales to the longest
+ * edge and re-encodes as JPEG. Re-encoding through a canvas drops all EXIF
+ * metadata, including GPS location.
+ */
+export const preprocessImage = async (dataUrl: string, options: PreprocessOptions = {}): Promise<PreparedImage> => {
+  const maxEdge = options.maxEdge ?? appConfig.maxImageEdge;
+  const quality = options.quality ?? appConfig.imageQuality;
+
+  const blob = await (await fetch(dataUrl)).blob();
+  const sourceMimeType = detectMimeType(new Uint8Array(await blob.slice(0, 16).arrayBuffer()));
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(blob, { imageOrientation: "from-image" });
+  } catch {
+    throw new ImagePreprocessError(
+      sourceMimeType === "image/heic"
+        ? "This browser can't read HEIC photos. Please convert it to JPEG or change your camera to 'Most Compatible'."
+        : "This image couldn't be read. Please try a JPEG, PNG or WebP file.",
+      sourceMimeType
+    );
+  }
+
+  const crop = options.crop || { x: 0, y: 0, width: 1, height: 1 };
+  const sx = Math.round(crop.x * bitmap.width);
+  const sy = Math.round(crop.y * bitmap.height);
+  const sw = Math.max(1, Math.round(crop.width * bitmap.width));
+  const sh = Math.max(1, Math.round(crop.height * bitmap.height));
+  const scale = Math.min(1, maxEdge / Math.max(sw, sh));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(sw * scale);
+  canvas.height = Math.round(sh * scale);
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    bitmap.close();
+    throw new ImagePreprocessError("Image processing isn't available in this browser.", sourceMimeType);
+  }
+  ctx.drawImage(bitmap, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return {
+    dataUrl: canvas.toDataURL(OUTPUT_MIME_TYPE, quality),
+    mimeType: OUTPUT_MIME_TYPE,
+    sourceMimeType,
+    width: canvas.width,
+    height: canvas.height,
+  };
+};
+
+/**
+ * Maps the on-screen reticle (a centred square of `reticleSize` CSS pixels)
+ * onto the video frame, accounting for `object-cover` scaling.
+ */
+export const getReticleCrop = (video: HTMLVideoElement, reticleSize: number): BoundingBox => {
+  const { videoWidth, videoHeight, clientWidth, clientHeight } = video;
+  if (!videoWidth || !videoHeight || !clientWidth || !clientHeight) {
+    return { x: 0, y: 0, width: 1, height: 1 };
+  }
+
+  const coverScale = Math.max(clientWidth / videoWidth, clientHeight / videoHeight);
+  const width = Math.min(1, reticleSize / coverScale / videoWidth);
+  const height = Math.min(1, reticleSize / coverScale / videoHeight);
+  return { x: (1 - width) / 2, y: (1 - height) / 2, width, height };
+};
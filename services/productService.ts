@@ -0,0 +1,37 @@
+import { AnalysisResult, PackagedProduct, PackagingMaterial, PackagingTable } from "../types";
+import packagingData from "../products/packaging.json";
+import { normalizeGtin } from "./barcodeService";
+import { getRegionPack } from "./regionService";
+import { validateAnalysisResult } from "./validation";
+
+export const PACKAGING = packagingData as PackagingTable;
+
+/** The product and its packaging material for a barcode, if it's in the bundled table. */
+export const lookupProduct = (barcode: string): { product: PackagedProduct; material: PackagingMaterial } | null => {
+  const gtin = normalizeGtin(barcode);
+  const product = gtin ? PACKAGING.products.find(candidate => candidate.gtin === gtin) : undefined;
+  const material = product && PACKAGING.materials[product.material];
+  return product && material ? { product, material } : null;
+};
+
+/**
+ * Builds a normal result from a table entry, routed through the same
+ * validation as model output so the region's bins apply.
+ */
+export const productToResult = (
+  product: PackagedProduct,
+  material: PackagingMaterial,
+  regionId?: string
+): AnalysisResult => {
+  const result = validateAnalysisResult({
+    category: material.category,
+    binId: material.binId,
+    itemName: product.name,
+    confidence: 1,
+    reasoning: `Barcode ${product.gtin} matches ${product.name}, packaged in ${material.label}.`,
+    disposalAction: material.disposal,
+    sustainabilityTip: material.tip,
+    hazardDetails: material.hazardDetails,
+  }, getRegionPack(regionId));
+  return { ...result, source: 'barcode', barcode: product.gtin };
+};
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { classifyTextViaProxy, classifyViaProxy, ProxyTransport } from "./proxyService";
+import {
+  ApiKeyError,
+  CancelledError,
+  MalformedResponseError,
+  NetworkError,
+  RateLimitError,
+  SafetyBlockError,
+  ServiceError,
+} from "./classifierErrors";
+import sodaCan from "../fixtures/classifications/soda-can.json";
+
+const IMAGE = "data:image/png;base64,AAAA";
+
+const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...headers } });
+
+const fakeTransport = (respond: ProxyTransport) => vi.fn<ProxyTransport>(respond);
+
+describe("classifyViaProxy with a fake transport", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(Math, "random").mockReturnValue(0);
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("posts the image and returns the validated result", async () => {
+    const transport = fakeTransport(async () => jsonResponse(sodaCan));
+    const result = await classifyViaProxy(IMAGE, { regionId: "generic" }, transport);
+
+    expect(result.itemName).toBe("Soda Can");
+    const [url, init] = transport.mock.calls[0];
+    expect(url).toBe("/api/classify");
+    expect(JSON.parse(init.body as string)).toMatchObject({ image: "AAAA", mimeType: "image/png", regionId: "generic" });
+  });
+
+  it("rebuilds typed errors from the server's payload", async () => {
+    const transport = fakeTransport(async () => jsonResponse({ error: "Blocked", code: "safety", retryable: false }, 422));
+    await expect(classifyViaProxy(IMAGE, {}, transport)).rejects.toBeInstanceOf(SafetyBlockError);
+
+    transport.mockImplementation(async () => jsonResponse({ error: "Bad output", code: "malformedResponse", retryable: false, issues: ["category"] }, 422));
+    await expect(classifyViaProxy(IMAGE, {}, transport)).rejects.toMatchObject({ issues: ["category"] });
+    await expect(classifyViaProxy(IMAGE, {}, transport)).rejects.toBeInstanceOf(MalformedResponseError);
+  });
+
+  it("classifies bodies without a code by status", async () => {
+    const transport = fakeTransport(async () => new Response("Unauthorized", { status: 401 }));
+    await expect(classifyViaProxy(IMAGE, {}, transport)).rejects.toBeInstanceOf(ApiKeyError);
+  });
+
+  it("does not retry server errors the server already retried", async () => {
+    const transport = fakeTransport(async () => jsonResponse({ error: "Upstream down", code: "service", retryable: true }, 502));
+    await expect(classifyViaProxy(IMAGE, {}, transport)).rejects.toBeInstanceOf(ServiceError);
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries a 429 after its Retry-After delay", async () => {
+    const transport = fakeTransport(async () => jsonResponse(sodaCan));
+    transport.mockResolvedValueOnce(jsonResponse({ error: "Slow down", code: "rateLimit", retryable: true }, 429, { "Retry-After": "0" }));
+
+    await expect(classifyViaProxy(IMAGE, {}, transport)).resolves.toMatchObject({ itemName: "Soda Can" });
+    expect(transport).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up on a 429 that asks to wait longer than the maximum backoff", async () => {
+    const transport = fakeTransport(async () => jsonResponse({ error: "Slow down", code: "rateLimit", retryable: true }, 429, { "Retry-After": "120" }));
+    const error = await classifyViaProxy(IMAGE, {}, transport).catch(caught => caught);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfterMs).toBe(120000);
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries fetch failures that never reached the server", async () => {
+    const transport = fakeTransport(async () => {
+      throw new TypeError("Failed to fetch");
+    });
+    await expect(classifyViaProxy(IMAGE, {}, transport)).rejects.toBeInstanceOf(NetworkError);
+    expect(transport.mock.calls.length).toBeGreaterThan(1);
+  });
+
+  it("raises CancelledError when the caller aborts", async () => {
+    const controller = new AbortController();
+    const transport = fakeTransport((_url, init) => new Promise((_, reject) => {
+      init.signal?.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")));
+    }));
+    const result = classifyViaProxy(IMAGE, { signal: controller.signal }, transport);
+    controller.abort();
+
+    await expect(result).rejects.toBeInstanceOf(CancelledError);
+  });
+
+  it("posts descriptions to the text route", async () => {
+    const transport = fakeTransport(async () => jsonResponse(sodaCan));
+    await classifyTextViaProxy("empty soda can", { locale: "es" }, transport);
+
+    const [url, init] = transport.mock.calls[0];
+    expect(url).toBe("/api/classify/text");
+    expect(JSON.parse(init.body as string)).toMatchObject({ text: "empty soda can", locale: "es" });
+  });
+});
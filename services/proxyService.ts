@@ -0,0 +1,178 @@
+import { AnalysisResult, ClassifyOptions, PartialAnalysis, WasteClassifier } from "../types";
+import { appConfig } from "./config";
+import { validateAnalysisResult } from "./validation";
+import { getRegionPack } from "./regionService";
+import {
+  ClassifierError,
+  ClassifierErrorPayload,
+  EmptyResponseError,
+  fromErrorPayload,
+  isNetworkFailure,
+  NetworkError,
+  RateLimitError,
+} from "./classifierErrors";
+import { withRetry } from "./retry";
+
+type StreamErrorEvent = ClassifierErrorPayload & { status: number };
+
+/** How requests reach the server; a fake can stand in for `fetch`. */
+export type ProxyTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+const fetchTransport: ProxyTransport = (url, init) => fetch(url, init);
+
+// The server retries its own Gemini calls, so the whole exchange needs room
+// for several slow attempts.
+const PROXY_TIMEOUT_MS = appConfig.requestTimeoutMs * (appConfig.maxRetries + 2);
+
+// Anything the server answered has already been retried there; only failures
+// that never reached it, and rate limits, are retried from the browser.
+const shouldRetryProxy = (error: ClassifierError) =>
+  error.retryable && (error.status === undefined || error instanceof RateLimitError);
+
+// Retry-After is either delay-seconds or an HTTP date.
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const errorFromResponse = async (response: Response): Promise<ClassifierError> => {
+  const payload = await response.json().catch(() => null) as Partial<ClassifierErrorPayload> | null;
+  return fromErrorPayload(response.status, {
+    ...payload,
+    retryAfterMs: payload?.retryAfterMs ?? parseRetryAfter(response.headers.get("Retry-After")),
+  });
+};
+
+/**
+ * Reads the server-sent events from /classify/stream: `partial` events are
+ * forwarded as they arrive and the `result` payload is returned.
+ */
+const readEventStream = async (
+  response: Response,
+  onPartial: (partial: PartialAnalysis) => void
+): Promise<unknown> => {
+  if (!response.body) {
+    throw new EmptyResponseError("Classification server returned an empty stream.");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      const event = block.match(/^event: (.+)$/m)?.[1];
+      const data = block.match(/^data: (.*)$/m)?.[1];
+      if (!event || data === undefined) continue;
+
+      const payload = JSON.parse(data);
+      if (event === "partial") {
+        onPartial(payload as PartialAnalysis);
+      } else if (event === "result") {
+        return payload;
+      } else if (event === "error") {
+        const { status, ...details } = payload as StreamErrorEvent;
+        throw fromErrorPayload(status, details);
+      }
+    }
+  }
+
+  throw new NetworkError("Classification stream ended without a result.");
+};
+
+/**
+ * POSTs a JSON body to one of the server's classify routes, retrying failures
+ * that never reached it, and validates the result.
+ */
+const postClassification = async (
+  path: string,
+  body: string,
+  options: ClassifyOptions,
+  transport: ProxyTransport
+): Promise<AnalysisResult> => {
+  try {
+    const payload = await withRetry(async signal => {
+      try {
+        const response = await transport(`${appConfig.proxyUrl}${path}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          signal,
+          body,
+        });
+
+        if (!response.ok) {
+          throw await errorFromResponse(response);
+        }
+
+        return await (options.onPartial
+          ? readEventStream(response, options.onPartial)
+          : response.json());
+      } catch (error) {
+        throw isNetworkFailure(error) ? new NetworkError() : error;
+      }
+    }, { signal: options.signal, timeoutMs: PROXY_TIMEOUT_MS, shouldRetry: shouldRetryProxy });
+
+    return validateAnalysisResult(payload, getRegionPack(options.regionId));
+
+  } catch (error) {
+    console.error("Proxy Analysis Error:", error);
+    if (error instanceof ClassifierError) {
+      throw error;
+    }
+    throw new ClassifierError("Failed to analyze the image. Please try again.", "unknown", false);
+  }
+};
+
+export const classifyViaProxy = (
+  base64Image: string,
+  options: ClassifyOptions = {},
+  transport: ProxyTransport = fetchTransport
+): Promise<AnalysisResult> => {
+  const cleanBase64 = base64Image.split(',')[1] || base64Image;
+  const mimeType = base64Image.match(/^data:(image\/[\w.+-]+);base64,/)?.[1];
+  const body = JSON.stringify({
+    image: cleanBase64,
+    mimeType,
+    multiItem: options.multiItem,
+    regionId: options.regionId,
+    clarifications: options.clarifications,
+    locale: options.locale,
+    bypassCache: options.bypassCache,
+  });
+  return postClassification(`/classify${options.onPartial ? "/stream" : ""}`, body, options, transport);
+};
+
+/** Classifies a typed item description through the server's /classify/text route. */
+export const classifyTextViaProxy = (
+  description: string,
+  options: ClassifyOptions = {},
+  transport: ProxyTransport = fetchTransport
+): Promise<AnalysisResult> => {
+  const body = JSON.stringify({
+    text: description,
+    regionId: options.regionId,
+    clarifications: options.clarifications,
+    locale: options.locale,
+  });
+  // The text route doesn't stream; its answers are short.
+  return postClassification("/classify/text", body, { ...options, onPartial: undefined }, transport);
+};
+
+export const proxyClassifier: WasteClassifier = {
+  name: 'proxy',
+  classify: (base64Image, options) => classifyViaProxy(base64Image, options),
+  classifyText: (description, options) => classifyTextViaProxy(description, options),
+};
@@ -0,0 +1,47 @@
+const SERVICE_WORKER_URL = "/sw.js";
+
+// Only production builds register the worker; in development it would cache Vite's modules.
+export const registerServiceWorker = () => {
+  if (!("serviceWorker" in navigator) || process.env.NODE_ENV !== "production") return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register(SERVICE_WORKER_URL).catch(err => {
+      console.error("Service worker registration error:", err);
+    });
+  });
+};
+
+export const isOffline = () => typeof navigator !== "undefined" && navigator.onLine === false;
+
+/** Asks once, at the moment a scan is queued, so the prompt has context. */
+export const requestNotificationPermission = async () => {
+  if (!("Notification" in window) || Notification.permission !== "default") return;
+  try {
+    await Notification.requestPermission();
+  } catch (err) {
+    console.error("Notification permission error:", err);
+  }
+};
+
+/** Shows a system notification when allowed, and mirrors the count on the app icon badge. */
+export const notifyResultsReady = async (title: string, body: string, count: number) => {
+  if ("setAppBadge" in navigator) {
+    navigator.setAppBadge(count).catch(() => undefined);
+  }
+  if (!("Notification" in window) || Notification.permission !== "granted") return;
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (registration) {
+      await registration.showNotification(title, { body, icon: "/icon.svg", tag: "eco-sort-outbox" });
+    } else {
+      new Notification(title, { body, icon: "/icon.svg" });
+    }
+  } catch (err) {
+    console.error("Notification error:", err);
+  }
+};
+
+export const clearAppBadge = () => {
+  if ("clearAppBadge" in navigator) {
+    navigator.clearAppBadge().catch(() => undefined);
+  }
+};
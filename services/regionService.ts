@@ -0,0 +1,40 @@
+import { AnalysisResult, RegionBin, RegionRulePack } from "../types";
+import generic from "../regions/generic.json";
+import greenfield from "../regions/greenfield.json";
+
+export const DEFAULT_REGION_ID = "generic";
+
+const STORAGE_KEY = "eco-sort:region";
+
+export const REGION_PACKS = [generic, greenfield] as RegionRulePack[];
+
+export const getRegionPack = (regionId: string = DEFAULT_REGION_ID): RegionRulePack => {
+  return REGION_PACKS.find(pack => pack.id === regionId)
+    || REGION_PACKS.find(pack => pack.id === DEFAULT_REGION_ID) as RegionRulePack;
+};
+
+/**
+ * Resolves the bin a result (or one of its components) belongs to. Falls back
+ * to the first bin of its generic category (e.g. results from before region
+ * packs existed).
+ */
+export const getBinForResult = (result: Pick<AnalysisResult, 'binId' | 'category'>, pack: RegionRulePack): RegionBin | undefined => {
+  return pack.bins.find(bin => bin.id === result.binId)
+    || pack.bins.find(bin => bin.category === result.category);
+};
+
+export const loadSelectedRegionId = (): string => {
+  try {
+    return getRegionPack(localStorage.getItem(STORAGE_KEY) || undefined).id;
+  } catch {
+    return DEFAULT_REGION_ID;
+  }
+};
+
+export const saveSelectedRegionId = (regionId: string) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, regionId);
+  } catch (e) {
+    console.error("Region save error:", e);
+  }
+};
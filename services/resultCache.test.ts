@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { AnalysisResult, CachedResultEntry, WasteCategory, WasteClassifier } from "../types";
+import { appConfig } from "./config";
+
+// IndexedDB stand-in: one map per store
+const stores = new Map<string, Map<string, unknown>>();
+const storeFor = (name: string) => stores.get(name) || stores.set(name, new Map()).get(name)!;
+
+vi.mock("./db", () => ({
+  STORES: { resultCache: "resultCache" },
+  putRecord: async (store: string, record: { id: string }) => { storeFor(store).set(record.id, record); },
+  getAllRecords: async (store: string) => [...storeFor(store).values()],
+  deleteRecord: async (store: string, id: string) => { storeFor(store).delete(id); },
+}));
+
+// There is no canvas here, so the test images are their own hashes
+vi.mock("./imageHash", async importOriginal => ({
+  ...await importOriginal<typeof import("./imageHash")>(),
+  computeImageHash: async (image: string) => image,
+}));
+
+const { cacheContext, lookupCachedResult, storeCachedResult, withResultCache } = await import("./resultCache");
+
+const RESULT: AnalysisResult = {
+  category: WasteCategory.RECYCLE,
+  itemName: "Soda Can",
+  confidence: 0.96,
+  reasoning: "",
+  disposalAction: "",
+  sustainabilityTip: "",
+};
+
+const HASH = "0000000000000000";
+const FIVE_BITS_OFF = "000000000000001f";
+const SIX_BITS_OFF = "000000000000003f";
+const CONTEXT = cacheContext({});
+const NOW = 1_700_000_000_000;
+
+const entries = () => [...storeFor("resultCache").values()] as CachedResultEntry[];
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const fakeClassifier = (itemName = "Soda Can") => {
+  const classify = vi.fn(async () => ({ ...RESULT, itemName }));
+  const classifier: WasteClassifier = { name: "mock", classify, classifyText: classify };
+  return { classify, cached: withResultCache(classifier) };
+};
+
+describe("lookupCachedResult", () => {
+  beforeEach(() => {
+    stores.clear();
+  });
+
+  it("matches hashes up to the distance threshold and no further", async () => {
+    expect(appConfig.resultCacheMaxDistance).toBe(5);
+    await storeCachedResult(HASH, CONTEXT, RESULT, NOW);
+
+    expect(await lookupCachedResult(FIVE_BITS_OFF, CONTEXT, NOW)).toMatchObject({ hash: HASH, result: RESULT });
+    expect(await lookupCachedResult(SIX_BITS_OFF, CONTEXT, NOW)).toBeUndefined();
+  });
+
+  it("prefers the closest of several matches", async () => {
+    await storeCachedResult(HASH, CONTEXT, RESULT, NOW);
+    await storeCachedResult(SIX_BITS_OFF, CONTEXT, { ...RESULT, itemName: "Glass Jar" }, NOW);
+    expect(entries()).toHaveLength(2);
+
+    expect((await lookupCachedResult("000000000000000f", CONTEXT, NOW))?.result.itemName).toBe("Glass Jar");
+  });
+
+  it("ignores entries older than the TTL", async () => {
+    await storeCachedResult(HASH, CONTEXT, RESULT, NOW);
+
+    expect(await lookupCachedResult(HASH, CONTEXT, NOW + appConfig.resultCacheTtlMs)).toBeDefined();
+    expect(await lookupCachedResult(HASH, CONTEXT, NOW + appConfig.resultCacheTtlMs + 1)).toBeUndefined();
+  });
+
+  it("keeps results for each region, language and mode apart", async () => {
+    const contexts = [
+      cacheContext({}),
+      cacheContext({ regionId: "greenfield" }),
+      cacheContext({ locale: "es" }),
+      cacheContext({ multiItem: true }),
+    ];
+    expect(new Set(contexts).size).toBe(4);
+
+    await storeCachedResult(HASH, contexts[0], RESULT, NOW);
+    for (const context of contexts.slice(1)) {
+      expect(await lookupCachedResult(HASH, context, NOW)).toBeUndefined();
+    }
+  });
+});
+
+describe("withResultCache", () => {
+  beforeEach(() => {
+    stores.clear();
+  });
+
+  it("serves a similar photo from the cache, marked with when it was classified", async () => {
+    const { classify, cached } = fakeClassifier();
+    await cached.classify(HASH, {});
+    await flush();
+
+    const result = await cached.classify(FIVE_BITS_OFF, {});
+    expect(classify).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ itemName: "Soda Can", cachedAt: entries()[0].timestamp });
+  });
+
+  it("classifies again for another region", async () => {
+    const { classify, cached } = fakeClassifier();
+    await cached.classify(HASH, {});
+    await flush();
+
+    await cached.classify(HASH, { regionId: "greenfield" });
+    expect(classify).toHaveBeenCalledTimes(2);
+  });
+
+  it("replaces the stored entry when the cache is bypassed", async () => {
+    const first = fakeClassifier("Soda Can");
+    await first.cached.classify(HASH, {});
+    await flush();
+
+    const second = fakeClassifier("Aluminium Can");
+    const result = await second.cached.classify(FIVE_BITS_OFF, { bypassCache: true });
+    await flush();
+
+    expect(second.classify).toHaveBeenCalledTimes(1);
+    expect(result).not.toHaveProperty("cachedAt");
+    expect(entries()).toEqual([expect.objectContaining({ hash: FIVE_BITS_OFF, result: expect.objectContaining({ itemName: "Aluminium Can" }) })]);
+    expect(await second.cached.classify(HASH, {})).toMatchObject({ itemName: "Aluminium Can" });
+  });
+});
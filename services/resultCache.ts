@@ -0,0 +1,89 @@
+import { AnalysisResult, CachedResultEntry, ClassifyOptions, WasteCategory, WasteClassifier } from "../types";
+import { appConfig } from "./config";
+import { STORES, deleteRecord, getAllRecords, putRecord } from "./db";
+import { computeImageHash, hammingDistance } from "./imageHash";
+import { getLocale } from "./i18n";
+import { getRegionPack } from "./regionService";
+
+/** The region, language and mode a cached result is valid for. */
+export const cacheContext = (options: ClassifyOptions) =>
+  `${getRegionPack(options.regionId).id}|${getLocale(options.locale).id}|${options.multiItem ? "multi" : "single"}`;
+
+/** Only confident results are reused, so uncertain ones still get their follow-up questions. */
+export const isCacheable = (result: AnalysisResult) =>
+  result.category !== WasteCategory.UNKNOWN && result.confidence >= appConfig.confidenceThreshold;
+
+const isExpired = (entry: CachedResultEntry, now: number) => now - entry.timestamp > appConfig.resultCacheTtlMs;
+
+const isSimilar = (entry: CachedResultEntry, hash: string, context: string) =>
+  entry.context === context && hammingDistance(entry.hash, hash) <= appConfig.resultCacheMaxDistance;
+
+/** The closest unexpired entry within the similarity threshold, if any. */
+export const lookupCachedResult = async (hash: string, context: string, now = Date.now()): Promise<CachedResultEntry | undefined> => {
+  const entries = await getAllRecords<CachedResultEntry>(STORES.resultCache);
+  let closest: CachedResultEntry | undefined;
+  let closestDistance = Infinity;
+  entries.forEach(entry => {
+    if (entry.context !== context || isExpired(entry, now)) return;
+    const distance = hammingDistance(entry.hash, hash);
+    if (distance <= appConfig.resultCacheMaxDistance && distance < closestDistance) {
+      closest = entry;
+      closestDistance = distance;
+    }
+  });
+  return closest;
+};
+
+/**
+ * Stores a result, replacing similar entries it supersedes. Expired entries
+ * and the oldest beyond `resultCacheSize` are dropped at the same time.
+ */
+export const storeCachedResult = async (hash: string, context: string, result: AnalysisResult, now = Date.now()): Promise<void> => {
+  const entries = await getAllRecords<CachedResultEntry>(STORES.resultCache);
+  const stale = entries.filter(entry => isExpired(entry, now) || isSimilar(entry, hash, context));
+  const kept = entries.filter(entry => !stale.includes(entry));
+  // Oldest first, so the overflow is at the front
+  const overflow = kept.slice(0, Math.max(0, kept.length + 1 - appConfig.resultCacheSize));
+  await Promise.all([...stale, ...overflow].map(entry => deleteRecord(STORES.resultCache, entry.id)));
+
+  const { cachedAt, ...fresh } = result;
+  const entry: CachedResultEntry = { id: crypto.randomUUID(), timestamp: cachedAt ?? now, hash, context, result: fresh };
+  await putRecord(STORES.resultCache, entry);
+};
+
+/**
+ * Wraps a classifier so perceptually similar photos reuse a cached result
+ * (marked with `cachedAt`). `bypassCache` forces a fresh classification, which
+ * then replaces the cached one. Cache failures never fail a classification.
+ */
+export const withResultCache = (classifier: WasteClassifier): WasteClassifier => ({
+  name: classifier.name,
+  classify: async (base64Image, options = {}) => {
+    // Answers to follow-up questions make a result specific to that one photo.
+    if (!appConfig.resultCacheTtlMs || options.clarifications?.length) {
+      return classifier.classify(base64Image, options);
+    }
+
+    const context = cacheContext(options);
+    const hash = await computeImageHash(base64Image).catch(error => {
+      console.error("Image hash error:", error);
+      return null;
+    });
+
+    if (hash && !options.bypassCache) {
+      const cached = await lookupCachedResult(hash, context).catch(error => {
+        console.error("Result cache read error:", error);
+        return undefined;
+      });
+      if (cached) return { ...cached.result, cachedAt: cached.timestamp };
+    }
+
+    const result = await classifier.classify(base64Image, options);
+    if (hash && isCacheable(result)) {
+      storeCachedResult(hash, context, result).catch(error => console.error("Result cache write error:", error));
+    }
+    return result;
+  },
+  // Descriptions are cheap to classify and vary too freely to match on.
+  classifyText: (description, options) => classifier.classifyText(description, options),
+});
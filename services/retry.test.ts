@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from "vitest";
+import { backoffDelay, withRetry } from "./retry";
+import { CancelledError, MalformedResponseError, RateLimitError, ServiceError, TimeoutError } from "./classifierErrors";
+
+describe("backoffDelay", () => {
+  it("scales the injected random value by the exponential cap", () => {
+    expect(backoffDelay(0, 500, 8000, () => 0.5)).toBe(250);
+    expect(backoffDelay(2, 500, 8000, () => 0.5)).toBe(1000);
+    expect(backoffDelay(3, 500, 8000, () => 0.999)).toBe(3996);
+  });
+
+  it("never exceeds the maximum delay", () => {
+    expect(backoffDelay(10, 500, 8000, () => 0.999)).toBe(7992);
+  });
+
+  it("can return zero (full jitter)", () => {
+    expect(backoffDelay(4, 500, 8000, () => 0)).toBe(0);
+  });
+});
+
+describe("withRetry", () => {
+  const fast = { baseDelayMs: 1, maxDelayMs: 10, timeoutMs: 1000, random: () => 0 };
+
+  it("retries retryable errors until one attempt succeeds", async () => {
+    const attempt = vi.fn()
+      .mockRejectedValueOnce(new ServiceError("Upstream unavailable", 503))
+      .mockResolvedValueOnce("ok");
+    await expect(withRetry(attempt, { ...fast, retries: 2 })).resolves.toBe("ok");
+    expect(attempt).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports each retry to onRetry instead of logging", async () => {
+    const warn = vi.spyOn(console, "warn");
+    const onRetry = vi.fn();
+    const error = new ServiceError("Upstream unavailable", 503);
+    const attempt = vi.fn().mockRejectedValueOnce(error).mockRejectedValueOnce(error).mockResolvedValueOnce("ok");
+
+    await expect(withRetry(attempt, { ...fast, retries: 2, onRetry })).resolves.toBe("ok");
+    expect(onRetry.mock.calls).toEqual([[error, 1, 0], [error, 2, 0]]);
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it("does not retry non-retryable errors", async () => {
+    const attempt = vi.fn().mockRejectedValue(new MalformedResponseError("Bad output", ["category"]));
+    await expect(withRetry(attempt, { ...fast, retries: 2 })).rejects.toBeInstanceOf(MalformedResponseError);
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up after the configured number of retries", async () => {
+    const attempt = vi.fn().mockRejectedValue(new ServiceError("Upstream unavailable", 503));
+    await expect(withRetry(attempt, { ...fast, retries: 2 })).rejects.toBeInstanceOf(ServiceError);
+    expect(attempt).toHaveBeenCalledTimes(3);
+  });
+
+  it("waits at least as long as a rate limit asks", async () => {
+    vi.useFakeTimers();
+    try {
+      const attempt = vi.fn()
+        .mockRejectedValueOnce(new RateLimitError("Slow down", 5000, 429))
+        .mockResolvedValueOnce("ok");
+      const result = withRetry(attempt, { ...fast, maxDelayMs: 8000, retries: 1 });
+
+      await vi.advanceTimersByTimeAsync(4999);
+      expect(attempt).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(result).resolves.toBe("ok");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("does not wait for a rate limit longer than the maximum delay", async () => {
+    const attempt = vi.fn().mockRejectedValue(new RateLimitError("Slow down", 60000, 429));
+    await expect(withRetry(attempt, { ...fast, retries: 2 })).rejects.toMatchObject({ retryAfterMs: 60000 });
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it("aborts a slow attempt and reports a timeout", async () => {
+    const attempt = vi.fn((signal: AbortSignal) => new Promise((_, reject) => {
+      signal.addEventListener("abort", () => reject(new Error("aborted")));
+    }));
+    await expect(withRetry(attempt, { ...fast, timeoutMs: 5, retries: 1 })).rejects.toBeInstanceOf(TimeoutError);
+    expect(attempt).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops with CancelledError when the caller aborts", async () => {
+    const controller = new AbortController();
+    const attempt = vi.fn((signal: AbortSignal) => new Promise((_, reject) => {
+      signal.addEventListener("abort", () => reject(new Error("aborted")));
+      controller.abort();
+    }));
+    await expect(withRetry(attempt, { ...fast, signal: controller.signal })).rejects.toBeInstanceOf(CancelledError);
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+});
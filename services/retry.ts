@@ -0,0 +1,89 @@
+import { CancelledError, ClassifierError, RateLimitError, TimeoutError } from "./classifierErrors";
+import { appConfig } from "./config";
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  timeoutMs?: number; // Per attempt
+  signal?: AbortSignal;
+  // Defaults to the error's own `retryable` flag.
+  shouldRetry?: (error: ClassifierError) => boolean;
+  // Injected for deterministic delays.
+  random?: () => number;
+  // Called before each backoff, for callers that want to log or show retries.
+  onRetry?: (error: ClassifierError, attempt: number, delayMs: number) => void;
+}
+
+/** Exponential backoff with full jitter: a random delay in [0, min(max, base * 2^attempt)). */
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number, random = Math.random): number =>
+  Math.floor(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new CancelledError());
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener("abort", onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new CancelledError());
+  };
+  signal?.addEventListener("abort", onAbort, { once: true });
+});
+
+/**
+ * Runs `attempt` with a per-attempt timeout, retrying transient
+ * ClassifierErrors with backoff. The signal passed to `attempt` aborts on
+ * timeout or when `options.signal` does. Other errors are rethrown untouched.
+ */
+export const withRetry = async <T>(
+  attempt: (signal: AbortSignal) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> => {
+  const {
+    retries = appConfig.maxRetries,
+    baseDelayMs = appConfig.retryBaseDelayMs,
+    maxDelayMs = appConfig.retryMaxDelayMs,
+    timeoutMs = appConfig.requestTimeoutMs,
+    signal,
+    shouldRetry = (error: ClassifierError) => error.retryable,
+    random,
+    onRetry,
+  } = options;
+
+  for (let attemptIndex = 0; ; attemptIndex++) {
+    if (signal?.aborted) throw new CancelledError();
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    try {
+      return await attempt(controller.signal);
+    } catch (caught) {
+      if (signal?.aborted) throw new CancelledError();
+      const error = timedOut ? new TimeoutError(`No response within ${Math.round(timeoutMs / 1000)}s.`) : caught;
+      if (!(error instanceof ClassifierError) || attemptIndex >= retries || !shouldRetry(error)) throw error;
+
+      // Wait at least as long as a rate-limited service asked, unless that is
+      // longer than any backoff we'd choose ourselves.
+      const retryAfterMs = error instanceof RateLimitError ? error.retryAfterMs || 0 : 0;
+      if (retryAfterMs > maxDelayMs) throw error;
+      const delay = Math.max(backoffDelay(attemptIndex, baseDelayMs, maxDelayMs, random), retryAfterMs);
+      onRetry?.(error, attemptIndex + 1, delay);
+      await sleep(delay, signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+};
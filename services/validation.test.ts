@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { HazardClass, WasteCategory } from "../types";
+import { validateAnalysisResult } from "./validation";
+import { DEFAULT_PRECAUTIONS } from "./hazardService";
+import takeawayTray from "../fixtures/classifications/takeaway-tray.json";
+
+const BOX = { x: 0.1, y: 0.1, width: 0.2, height: 0.2 };
+
+describe("validateAnalysisResult", () => {
+  const withConfidence = (confidence: unknown) => validateAnalysisResult({ ...takeawayTray, confidence }).confidence;
+
+  it("reads percentages only when marked or clearly above the 0–1 scale", () => {
+    expect(withConfidence(87)).toBe(0.87);
+    expect(withConfidence("87%")).toBe(0.87);
+    expect(withConfidence("1.5%")).toBe(0.015);
+    expect(withConfidence(2)).toBe(0.02);
+    expect(withConfidence(0.42)).toBe(0.42);
+  });
+
+  it("clamps values just above 1 instead of reading them as percentages", () => {
+    expect(withConfidence(1.02)).toBe(1);
+    expect(withConfidence("1.5")).toBe(1);
+  });
+
+  it("gives every HAZARD item its own hazard details", () => {
+    const result = validateAnalysisResult({
+      ...takeawayTray,
+      items: [
+        ...takeawayTray.items,
+        { category: "HAZARD", itemName: "AA Battery", confidence: 0.9, boundingBox: BOX, disposalAction: "Take to a drop-off point.", hazardDetails: { hazardClass: "BATTERY", precautions: ["Tape the terminals."] } },
+        { category: "HAZARD", itemName: "Paint Tin", confidence: 0.8, boundingBox: BOX, disposalAction: "Take to a drop-off point." },
+      ],
+    });
+    const [battery, paint] = result.items!.filter(item => item.category === WasteCategory.HAZARD);
+
+    expect(battery.hazardDetails).toMatchObject({ hazardClass: HazardClass.BATTERY, precautions: ["Tape the terminals."], doNotBin: true });
+    expect(paint.hazardDetails?.precautions).toEqual(DEFAULT_PRECAUTIONS[HazardClass.OTHER]);
+    expect(result.items!.filter(item => item.hazardDetails)).toHaveLength(2);
+  });
+});
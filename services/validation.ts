@@ -0,0 +1,331 @@
+import { AnalysisResult, BatteryChemistry, BoundingBox, DetectedItem, HazardClass, HazardDetails, PackagingComponent, PartialAnalysis, RegionRulePack, WasteCategory } from "../types";
+import { DEFAULT_PRECAUTIONS, DEFAULT_STORAGE_ADVICE } from "./hazardService";
+import { MalformedResponseError } from "./classifierErrors";
+
+export const MAX_ITEM_NAME_LENGTH = 60;
+export const MAX_TEXT_LENGTH = 400;
+export const MAX_QUESTION_LENGTH = 120;
+export const MAX_CLARIFYING_QUESTIONS = 2;
+export const MAX_PRECAUTIONS = 6;
+export const MAX_PRECAUTION_LENGTH = 160;
+export const MAX_DESCRIPTION_LENGTH = 200;
+export const MAX_COMPONENTS = 6;
+
+const REQUIRED_TEXT_FIELDS = ["itemName", "reasoning", "disposalAction"] as const;
+
+/**
+ * Raised when model or server output cannot be turned into an AnalysisResult,
+ * even after repair. `issues` lists every problem found so a corrective prompt
+ * can be built from it.
+ */
+export class AnalysisValidationError extends MalformedResponseError {
+  constructor(message: string, issues: string[]) {
+    super(message, issues);
+    this.name = "AnalysisValidationError";
+  }
+}
+
+const truncate = (value: string, maxLength: number): string => {
+  const trimmed = value.trim();
+  return trimmed.length > maxLength ? `${trimmed.slice(0, maxLength - 1).trimEnd()}…` : trimmed;
+};
+
+const toCategory = (value: unknown): WasteCategory => {
+  const normalized = typeof value === "string" ? value.trim().toUpperCase() : "";
+  return Object.values(WasteCategory).includes(normalized as WasteCategory)
+    ? (normalized as WasteCategory)
+    : WasteCategory.UNKNOWN;
+};
+
+const clampUnit = (value: number) => Math.min(1, Math.max(0, value));
+
+// Models sometimes answer 87 or "87%" instead of 0.87. Values just above 1
+// (e.g. 1.02) are overshoots of the 0–1 scale, not 1% confidence.
+const toConfidence = (value: unknown): number | null => {
+  const numeric = typeof value === "string" ? parseFloat(value) : value;
+  if (typeof numeric !== "number" || !Number.isFinite(numeric)) return null;
+  const isPercent = (typeof value === "string" && value.includes("%")) || numeric >= 2;
+  return clampUnit(isPercent ? numeric / 100 : numeric);
+};
+
+// Gemini often reports boxes on a 0–1000 grid; normalize those to 0–1.
+const toBoundingBox = (value: unknown): BoundingBox | null => {
+  if (!value || typeof value !== "object") return null;
+  const box = value as Record<string, unknown>;
+  const coords = [box.x, box.y, box.width, box.height];
+  if (!coords.every(coord => typeof coord === "number" && Number.isFinite(coord))) return null;
+
+  const [x, y, width, height] = coords as number[];
+  const scale = Math.max(x, y, width, height) > 1 ? 1000 : 1;
+  return {
+    x: clampUnit(x / scale),
+    y: clampUnit(y / scale),
+    width: clampUnit(width / scale),
+    height: clampUnit(height / scale),
+  };
+};
+
+// Items that can't be repaired are dropped rather than failing the whole scan.
+const toDetectedItems = (value: unknown): DetectedItem[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((entry): DetectedItem[] => {
+    if (!entry || typeof entry !== "object") return [];
+    const item = entry as Record<string, unknown>;
+    const confidence = toConfidence(item.confidence);
+    const boundingBox = toBoundingBox(item.boundingBox);
+
+    if (typeof item.itemName !== "string" || !item.itemName.trim() || confidence === null || !boundingBox) {
+      return [];
+    }
+
+    const category = toCategory(item.category);
+    return [{
+      category,
+      itemName: truncate(item.itemName, MAX_ITEM_NAME_LENGTH),
+      confidence,
+      boundingBox,
+      disposalAction: typeof item.disposalAction === "string" ? truncate(item.disposalAction, MAX_TEXT_LENGTH) : "",
+      ...(category === WasteCategory.HAZARD && { hazardDetails: toHazardDetails(item.hazardDetails) }),
+    }];
+  });
+};
+
+// Pins a category to one of the pack's bins; the bin's category wins.
+const toRegionBin = (binId: unknown, category: WasteCategory, pack: RegionRulePack) => {
+  const normalized = typeof binId === "string" ? binId.trim().toUpperCase() : "";
+  return pack.bins.find(candidate => candidate.id === normalized)
+    || pack.bins.find(candidate => candidate.category === category);
+};
+
+// Like detected items, broken parts are dropped. A single part is no breakdown at all.
+const toPackagingComponents = (value: unknown, pack?: RegionRulePack): PackagingComponent[] => {
+  if (!Array.isArray(value)) return [];
+
+  const components = value.flatMap((entry): PackagingComponent[] => {
+    if (!entry || typeof entry !== "object") return [];
+    const part = entry as Record<string, unknown>;
+    const texts = [part.name, part.material, part.separationStep];
+    if (!texts.every(text => typeof text === "string" && text.trim())) return [];
+
+    const component: PackagingComponent = {
+      name: truncate(part.name as string, MAX_ITEM_NAME_LENGTH),
+      material: truncate(part.material as string, MAX_ITEM_NAME_LENGTH),
+      category: toCategory(part.category),
+      separationStep: truncate(part.separationStep as string, MAX_QUESTION_LENGTH),
+    };
+    const bin = pack && toRegionBin(part.binId, component.category, pack);
+    if (bin) {
+      component.binId = bin.id;
+      component.category = bin.category;
+    }
+    return [component];
+  }).slice(0, MAX_COMPONENTS);
+
+  return components.length > 1 ? components : [];
+};
+
+const toEnumValue = <T extends string>(values: T[], value: unknown, fallback: T): T => {
+  const normalized = typeof value === "string" ? value.trim().toUpperCase() : "";
+  return values.includes(normalized as T) ? (normalized as T) : fallback;
+};
+
+// A HAZARD result must never reach the UI without precautions, so anything
+// missing is filled from the per-class defaults.
+const toHazardDetails = (value: unknown): HazardDetails => {
+  const details = value && typeof value === "object" ? value as Record<string, unknown> : {};
+  const hazardClass = toEnumValue(Object.values(HazardClass), details.hazardClass, HazardClass.OTHER);
+
+  const precautions = Array.isArray(details.precautions)
+    ? details.precautions
+      .filter((precaution): precaution is string => typeof precaution === "string" && precaution.trim().length > 0)
+      .slice(0, MAX_PRECAUTIONS)
+      .map(precaution => truncate(precaution, MAX_PRECAUTION_LENGTH))
+    : [];
+
+  return {
+    hazardClass,
+    ...(hazardClass === HazardClass.BATTERY && {
+      batteryChemistry: toEnumValue(Object.values(BatteryChemistry), details.batteryChemistry, BatteryChemistry.UNKNOWN),
+    }),
+    precautions: precautions.length > 0 ? precautions : DEFAULT_PRECAUTIONS[hazardClass],
+    doNotBin: typeof details.doNotBin === "boolean" ? details.doNotBin : true,
+    storageAdvice: typeof details.storageAdvice === "string" && details.storageAdvice.trim()
+      ? truncate(details.storageAdvice, MAX_TEXT_LENGTH)
+      : DEFAULT_STORAGE_ADVICE[hazardClass],
+  };
+};
+
+/**
+ * Parses raw model text as JSON, tolerating a ```json fenced block.
+ */
+export const parseAnalysisJson = (text: string): unknown => {
+  const unfenced = text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  try {
+    return JSON.parse(unfenced);
+  } catch {
+    throw new AnalysisValidationError(
+      "The classifier returned a response that was not valid JSON.",
+      ["Response was not valid JSON."]
+    );
+  }
+};
+
+/**
+ * Closes whatever strings, objects and arrays are still open at the end of a
+ * JSON prefix. Returns null when the prefix ends somewhere that can't be
+ * closed into valid JSON (e.g. after a key, or inside an escape sequence).
+ */
+const closeJsonPrefix = (prefix: string): string | null => {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (const char of prefix) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      closers.push("}");
+    } else if (char === "[") {
+      closers.push("]");
+    } else if (char === "}" || char === "]") {
+      closers.pop();
+    }
+  }
+
+  // A trailing number may still be growing (0.9 -> 0.93), so wait for the next delimiter.
+  if (escaped || (!inString && /[\d.eE+-]\s*$/.test(prefix))) return null;
+  const closed = (inString ? `${prefix}"` : prefix.replace(/[,:\s]+$/, "")) + closers.reverse().join("");
+  try {
+    JSON.parse(closed);
+    return closed;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Reads the fields that have arrived so far from a streamed, still-incomplete
+ * JSON response. Falls back to shorter prefixes (cut at each comma) until one
+ * closes cleanly, so a half-written key or number is simply left out.
+ */
+export const parsePartialAnalysis = (text: string): PartialAnalysis => {
+  const start = text.indexOf("{");
+  if (start === -1) return {};
+
+  let prefix = text.slice(start);
+  let closed = closeJsonPrefix(prefix);
+  while (closed === null) {
+    const cut = prefix.lastIndexOf(",");
+    if (cut <= 0) return {};
+    prefix = prefix.slice(0, cut);
+    closed = closeJsonPrefix(prefix);
+  }
+
+  const record = JSON.parse(closed) as Record<string, unknown>;
+  const partial: PartialAnalysis = {};
+  const category = record.category;
+  if (typeof category === "string" && (Object.values(WasteCategory) as string[]).includes(category)) {
+    partial.category = category as WasteCategory;
+  }
+  if (typeof record.binId === "string") partial.binId = record.binId;
+  if (typeof record.itemName === "string") partial.itemName = truncate(record.itemName, MAX_ITEM_NAME_LENGTH);
+  const confidence = toConfidence(record.confidence);
+  if (confidence !== null) partial.confidence = confidence;
+  for (const field of ["reasoning", "disposalAction", "sustainabilityTip"] as const) {
+    if (typeof record[field] === "string") partial[field] = record[field] as string;
+  }
+  return partial;
+};
+
+/**
+ * Checks an untyped payload (model output, server response, fixture) and
+ * repairs what can be repaired: confidence is coerced into 0–1, unknown
+ * categories become UNKNOWN, over-long strings are trimmed and malformed
+ * multi-item entries and components are dropped. With a rule pack, the result
+ * and each component are pinned to one of its bins and take that bin's
+ * category. HAZARD results always get complete hazard details, as does each
+ * HAZARD item. Throws an AnalysisValidationError when required fields are
+ * missing.
+ */
+export const validateAnalysisResult = (data: unknown, pack?: RegionRulePack): AnalysisResult => {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new AnalysisValidationError(
+      "The classifier returned an empty result.",
+      ["Response must be a JSON object."]
+    );
+  }
+
+  const record = data as Record<string, unknown>;
+  const issues: string[] = [];
+
+  for (const field of REQUIRED_TEXT_FIELDS) {
+    if (typeof record[field] !== "string" || !(record[field] as string).trim()) {
+      issues.push(`"${field}" must be a non-empty string.`);
+    }
+  }
+
+  const confidence = toConfidence(record.confidence);
+  if (confidence === null) {
+    issues.push(`"confidence" must be a number between 0 and 1.`);
+  }
+
+  if (issues.length > 0) {
+    throw new AnalysisValidationError(
+      `The classifier returned an incomplete result (${issues.join(" ")})`,
+      issues
+    );
+  }
+
+  const result: AnalysisResult = {
+    category: toCategory(record.category),
+    itemName: truncate(record.itemName as string, MAX_ITEM_NAME_LENGTH),
+    confidence: confidence as number,
+    reasoning: truncate(record.reasoning as string, MAX_TEXT_LENGTH),
+    disposalAction: truncate(record.disposalAction as string, MAX_TEXT_LENGTH),
+    sustainabilityTip: typeof record.sustainabilityTip === "string"
+      ? truncate(record.sustainabilityTip, MAX_TEXT_LENGTH)
+      : "",
+  };
+
+  if (Array.isArray(record.clarifyingQuestions)) {
+    result.clarifyingQuestions = record.clarifyingQuestions
+      .filter((question): question is string => typeof question === "string" && question.trim().length > 0)
+      .slice(0, MAX_CLARIFYING_QUESTIONS)
+      .map(question => truncate(question, MAX_QUESTION_LENGTH));
+  }
+
+  if (record.items !== undefined) {
+    result.items = toDetectedItems(record.items);
+  }
+
+  const components = toPackagingComponents(record.components, pack);
+  if (components.length > 0 && !result.items) {
+    result.components = components;
+  }
+
+  if (pack) {
+    const bin = toRegionBin(record.binId, result.category, pack);
+
+    result.regionId = pack.id;
+    if (bin) {
+      result.binId = bin.id;
+      result.category = bin.category;
+    }
+  }
+
+  if (result.category === WasteCategory.HAZARD) {
+    result.hazardDetails = toHazardDetails(record.hazardDetails);
+  }
+
+  // Set by a server-side cache hit
+  if (typeof record.cachedAt === "number" && Number.isFinite(record.cachedAt)) {
+    result.cachedAt = record.cachedAt;
+  }
+
+  return result;
+};
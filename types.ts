@@ -6,6 +6,59 @@ export enum WasteCategory {
   UNKNOWN = 'UNKNOWN'
 }
 
+export enum HazardClass {
+  BATTERY = 'BATTERY',
+  E_WASTE = 'E_WASTE',
+  SOLVENT = 'SOLVENT',
+  SHARPS = 'SHARPS',
+  LIGHT_BULB = 'LIGHT_BULB',
+  OTHER = 'OTHER'
+}
+
+export enum BatteryChemistry {
+  LITHIUM_ION = 'LITHIUM_ION',
+  ALKALINE = 'ALKALINE',
+  NICKEL_METAL_HYDRIDE = 'NICKEL_METAL_HYDRIDE',
+  LEAD_ACID = 'LEAD_ACID',
+  BUTTON_CELL = 'BUTTON_CELL',
+  UNKNOWN = 'UNKNOWN'
+}
+
+// Required on every HAZARD result; validation fills in defaults if the model omits them
+export interface HazardDetails {
+  hazardClass: HazardClass;
+  batteryChemistry?: BatteryChemistry;
+  precautions: string[];
+  doNotBin: boolean;
+  storageAdvice: string;
+}
+
+// Normalized to the image: 0–1 fractions of its width and height
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DetectedItem {
+  category: WasteCategory;
+  itemName: string;
+  confidence: number;
+  boundingBox: BoundingBox;
+  disposalAction: string;
+  hazardDetails?: HazardDetails; // Set on every HAZARD item
+}
+
+// One separable part of a single item, e.g. the lid of a coffee cup
+export interface PackagingComponent {
+  name: string;
+  material: string;
+  category: WasteCategory;
+  binId?: string;
+  separationStep: string; // e.g. "Remove the lid → recycle"
+}
+
 export interface AnalysisResult {
   category: WasteCategory;
   itemName: string;
@@ -13,11 +66,235 @@ export interface AnalysisResult {
   reasoning: string;
   disposalAction: string;
   sustainabilityTip: string; // New field for fun/interesting facts
+  items?: DetectedItem[]; // Only present in multi-item mode
+  components?: PackagingComponent[]; // Separable parts in disassembly order; single-item mode only
+  regionId?: string; // Rule pack the result was classified under
+  binId?: string; // The region-specific bin, e.g. 'GLASS'
+  clarifyingQuestions?: string[]; // Follow-ups the model suggests when unsure
+  clarifications?: Clarification[]; // Answers the user gave before re-classifying
+  hazardDetails?: HazardDetails; // Only present on HAZARD results
+  cachedAt?: number; // Set when served from the result cache: when the cached result was classified
+  source?: 'text' | 'barcode'; // How the item was identified when it wasn't from a photo
+  barcode?: string; // The scanned GTIN for barcode results
+  query?: string; // The typed description for text results
+}
+
+export interface Clarification {
+  question: string;
+  answer: 'yes' | 'no' | 'unsure';
 }
 
 export interface AnalysisState {
   isLoading: boolean;
   result: AnalysisResult | null;
   error: string | null;
+  errorRetryable?: boolean; // The same image may succeed if classified again
   imagePreview: string | null;
-}
\ No newline at end of file
+  partial?: PartialAnalysis | null; // Set while a streamed result is arriving
+}
+export interface RegionBin {
+  id: string;
+  label: string;
+  color: string; // Hex, used for swatches and the category strip
+  category: WasteCategory; // Generic stream the bin belongs to (drives theming)
+  rules: string; // Material rules injected into the prompt
+  disposalText: string;
+}
+
+export interface RegionRulePack {
+  id: string;
+  name: string;
+  version: number;
+  guidance: string;
+  priority: string[]; // Bin ids, highest priority first
+  bins: RegionBin[];
+}
+
+export type ClassifierBackend = 'gemini' | 'proxy' | 'mock';
+
+export interface ClassifyOptions {
+  multiItem?: boolean;
+  regionId?: string;
+  clarifications?: Clarification[];
+  signal?: AbortSignal;
+  locale?: string; // Language for the model's free-text fields, e.g. 'es'
+  onPartial?: (partial: PartialAnalysis) => void; // Opts into streaming; called as fields arrive
+  bypassCache?: boolean; // Skip cached results; the fresh result still replaces them
+}
+
+// The fields of a result that have streamed in so far; string fields may be cut mid-sentence
+export type PartialAnalysis = Partial<Pick<AnalysisResult,
+  'category' | 'binId' | 'itemName' | 'confidence' | 'reasoning' | 'disposalAction' | 'sustainabilityTip'>>;
+
+export interface WasteClassifier {
+  name: ClassifierBackend;
+  classify: (base64Image: string, options?: ClassifyOptions) => Promise<AnalysisResult>;
+  // Classifies a typed description of the item instead of a photo
+  classifyText: (description: string, options?: ClassifyOptions) => Promise<AnalysisResult>;
+}
+
+export interface ScanHistoryEntry {
+  id: string;
+  timestamp: number;
+  thumbnail: string | null;
+  result: AnalysisResult;
+}
+
+// A scan taken offline, waiting to be classified once the connection returns
+export interface OutboxEntry {
+  id: string;
+  timestamp: number;
+  image: string; // Preprocessed data URL, ready to classify
+  options: Omit<ClassifyOptions, 'signal' | 'onPartial'>;
+}
+
+// A confident classification reused for perceptually similar photos
+export interface CachedResultEntry {
+  id: string;
+  timestamp: number; // When the result was classified
+  hash: string; // dHash of the preprocessed image, 16 hex characters
+  context: string; // Region, language and mode the result is valid for
+  result: AnalysisResult;
+}
+
+export interface FeedbackEntry {
+  id: string;
+  timestamp: number;
+  result: AnalysisResult; // What the classifier said
+  image: string | null; // Full data URL of the analysed image
+  correctCategory: WasteCategory;
+  correctBinId?: string;
+  note: string;
+}
+
+export type BatchItemStatus = 'queued' | 'processing' | 'done' | 'error' | 'cancelled';
+
+export interface BatchItem {
+  id: string;
+  fileName: string;
+  imagePreview: string;
+  status: BatchItemStatus;
+  result?: AnalysisResult;
+  error?: string;
+}
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+export interface FacilityProperties {
+  id: string;
+  name: string;
+  address: string;
+  accepts: string[]; // Categories, region bin ids or hazard classes, e.g. 'GLASS', 'BATTERY'
+  openingHours: string;
+}
+
+// GeoJSON Point feature; coordinates are [longitude, latitude]
+export interface Facility {
+  type: 'Feature';
+  geometry: { type: 'Point'; coordinates: number[] };
+  properties: FacilityProperties;
+}
+
+export interface NearbyFacility {
+  facility: FacilityProperties;
+  location: GeoPoint;
+  distanceKm: number;
+}
+
+export interface AccessibilityPrefs {
+  speakResults: boolean; // Read each result aloud with the Web Speech API
+  reduceMotion: boolean;
+  highContrast: boolean;
+}
+
+export interface LocaleInfo {
+  id: string; // BCP 47 primary language subtag, e.g. 'ur'
+  name: string; // Native name shown in the language picker
+  englishName: string; // Used in the model prompt
+  dir: 'ltr' | 'rtl';
+}
+
+export interface ImpactFactor {
+  id: string;
+  label: string;
+  keywords: string[]; // Matched case-insensitively against the item name
+  massKg: number; // Typical mass of one item
+  co2eKg: number; // Emissions avoided by keeping one item out of landfill
+}
+
+export interface ImpactFactorTable {
+  version: number;
+  source: string;
+  items: ImpactFactor[];
+  categoryDefaults: Record<WasteCategory, { massKg: number; co2eKg: number }>;
+}
+
+export interface PackagingMaterial {
+  label: string;
+  category: WasteCategory;
+  binId?: string; // Preferred region bin, when the region has one (e.g. 'GLASS')
+  hazardDetails?: Partial<HazardDetails>;
+  disposal: string;
+  tip: string;
+}
+
+export interface PackagedProduct {
+  gtin: string; // 13 digits; EAN-8 and UPC-A codes are zero-padded
+  name: string;
+  material: string; // Key into PackagingTable.materials
+}
+
+export interface PackagingTable {
+  version: number;
+  source: string;
+  materials: Record<string, PackagingMaterial>;
+  products: PackagedProduct[];
+}
+
+export interface WeeklyCategoryCount {
+  weekStart: number; // Local midnight on the Monday
+  counts: Record<WasteCategory, number>;
+}
+
+export interface ImpactSummary {
+  totalItems: number;
+  categoryTotals: Record<WasteCategory, number>;
+  weekly: WeeklyCategoryCount[]; // Oldest first
+  diversionRate: number | null; // (recycle + compost) / (recycle + compost + trash); null with no sortable items
+  hazardItems: number;
+  currentStreakDays: number;
+  longestStreakDays: number;
+  landfillMassAvoidedKg: number;
+  co2eAvoidedKg: number;
+}
+
+export interface Group {
+  id: string;
+  code: string; // Short join code shared with the household or team
+  name: string;
+}
+
+export interface GroupMember {
+  id: string;
+  name: string;
+}
+
+// Stored on the device after creating or joining a group
+export interface GroupSession {
+  token: string;
+  group: Group;
+  member: GroupMember;
+}
+
+export interface SharedScan extends ScanHistoryEntry {
+  memberId: string;
+  memberName: string;
+}
+
+export interface MemberTally {
+  member: GroupMember;
+  counts: Record<WasteCategory, number>;
+}
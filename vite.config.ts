@@ -8,11 +8,27 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': {
+            target: env.CLASSIFIER_SERVER_URL || 'http://localhost:5000',
+            changeOrigin: true,
+            rewrite: (p) => p.replace(/^\/api/, ''),
+            // Added here so the key never reaches the browser bundle
+            headers: env.CLASSIFIER_API_KEY ? { 'X-API-Key': env.CLASSIFIER_API_KEY } : undefined,
+          },
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.CLASSIFIER_BACKEND': JSON.stringify(env.CLASSIFIER_BACKEND),
+        'process.env.CLASSIFIER_PROXY_URL': JSON.stringify(env.CLASSIFIER_PROXY_URL),
+        'process.env.CONFIDENCE_THRESHOLD': JSON.stringify(env.CONFIDENCE_THRESHOLD),
+        'process.env.MAX_IMAGE_EDGE': JSON.stringify(env.MAX_IMAGE_EDGE),
+        'process.env.LIVE_SCAN_INTERVAL_MS': JSON.stringify(env.LIVE_SCAN_INTERVAL_MS),
+        'process.env.REQUEST_TIMEOUT_MS': JSON.stringify(env.REQUEST_TIMEOUT_MS),
+        'process.env.MAX_RETRIES': JSON.stringify(env.MAX_RETRIES),
+        'process.env.RESULT_CACHE_TTL_HOURS': JSON.stringify(env.RESULT_CACHE_TTL_HOURS),
+        'process.env.RESULT_CACHE_MAX_DISTANCE': JSON.stringify(env.RESULT_CACHE_MAX_DISTANCE)
       },
       resolve: {
         alias: {
@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+// Tests read process.env at runtime, so they skip the build-time `define` in vite.config.ts.
+export default defineConfig({
+  test: {
+    environment: 'node',
+  },
+});